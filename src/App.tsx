@@ -1,13 +1,23 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
-import { FileUpload } from './components/FileUpload';
+import { FileUpload, ACCEPTED_FILE_TYPES } from './components/FileUpload';
+import { ImportDialog } from './components/ImportDialog';
 import { SearchBar } from './components/SearchBar';
 import { TranscriptViewer } from './components/TranscriptViewer';
-import { FileParser } from './utils/fileParser';
-import { SearchEngine } from './utils/searchEngine';
+import { ImportProgress } from './utils/fileParser';
+import { FolderScanner } from './utils/folderScanner';
+import { SearchPatternError } from './utils/searchEngine';
+import { QueryParseError } from './utils/queryParser';
+import { LibraryWorkerClient, isCancellation } from './workers/libraryWorkerClient';
+import { DuplicateDetector, DuplicateMatch } from './utils/duplicateDetector';
+import { SpeakerRoster } from './utils/speakerRoster';
+import { FindReplace } from './utils/findReplace';
+import { LoadingSpinner } from './components/LoadingSpinner';
+import { useEpisodeLibrary } from './hooks/useEpisodeLibrary';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { Episode, SearchResult } from './types/transcript';
-import { AlertCircle, CheckCircle, X, Folder, Mouse, Eye, MoreHorizontal, Command } from 'lucide-react';
+import { useEditHistory, TranscriptChange, TranscriptUpdate } from './hooks/useEditHistory';
+import { SearchResult, SearchOptions, ImportReport, ImportStatus, Episode, FileProcessingResult, DuplicateResolution, SpeakerDefaults, SpeakerProfile, TranscriptSegment, FindMatch, FindOptions, Annotation } from './types/transcript';
+import { AlertCircle, CheckCircle, X, Folder, Mouse, Eye, MoreHorizontal, Command, Upload, ClipboardList, FolderOpen } from 'lucide-react';
 
 interface Notification {
   id: string;
@@ -15,19 +25,90 @@ interface Notification {
   message: string;
 }
 
+interface ImportState {
+  fileNames: string[];
+  completedFiles: string[];
+  progress?: ImportProgress;
+  // Library duplicates waiting for the user to choose skip, replace or merge
+  duplicateMatches?: DuplicateMatch[];
+  report?: ImportReport;
+}
+
+interface PendingImport {
+  result: FileProcessingResult;
+  duplicates: Map<string, Episode>;
+  fileNames: string[];
+  startedAt: string;
+}
+
+// Used when the import as a whole couldn't run, so every file failed
+function failedImportReport(fileNames: string[], startedAt: string, error: unknown): ImportReport {
+  return {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    cancelled: false,
+    entries: fileNames.map(fileName => ({
+      fileName,
+      status: 'failed' as const,
+      detail: `Failed to process files: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }))
+  };
+}
+
 function App() {
-  const [episodes, setEpisodes] = useLocalStorage<Episode[]>('podtranscript-episodes', []);
+  const library = useEpisodeLibrary();
+  const { episodes, pendingTranscriptIds, addEpisodes, updateEpisode, clearEpisodes, loadTranscripts, getTranscript } = library;
   const [isProcessing, setIsProcessing] = useState(false);
+  const [importState, setImportState] = useState<ImportState | null>(null);
+  const [lastImportReport, setLastImportReport] = useLocalStorage<ImportReport | null>('podtranscript-last-import', null);
+  const [speakerDefaults, setSpeakerDefaults] = useLocalStorage<SpeakerDefaults>('podtranscript-speaker-defaults', {});
+  const importController = useRef<AbortController | null>(null);
+  const pendingImport = useRef<PendingImport | null>(null);
+  // Files a folder scan left out, noted on the report
+  const ignoredFileCount = useRef(0);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchError, setSearchError] = useState<string | undefined>();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [hasProcessedFiles, setHasProcessedFiles] = useState(false);
+  // Audio files can't be serialized into storage, so they only live for the session
+  const [audioFiles, setAudioFiles] = useState<Record<string, File>>({});
 
-  const searchEngine = useMemo(() => {
-    const engine = new SearchEngine();
-    engine.setEpisodes(episodes);
-    return engine;
-  }, [episodes]);
+  // Indexing, searching and file parsing happen in a worker so big libraries don't block the UI
+  const libraryWorker = useMemo(() => new LibraryWorkerClient(), []);
+  const lastSearch = useRef<{ query: string; options: SearchOptions }>({ query: '', options: {} });
+
+  // Malformed queries keep the previous results on screen and report the problem inline
+  const runSearch = useCallback((query: string, options: SearchOptions) => {
+    libraryWorker.search(query, options).then(results => {
+      setSearchResults(results);
+      setSearchError(undefined);
+    }).catch(error => {
+      // Superseded by a newer query
+      if (isCancellation(error)) return;
+      if (error instanceof QueryParseError || error instanceof SearchPatternError) {
+        setSearchError(error.message);
+      } else {
+        console.error('Search failed:', error);
+        setSearchError('Search failed. Please try again.');
+      }
+    });
+  }, [libraryWorker]);
+
+  // Finds waiting for transcripts to load, resumed once the worker has them
+  const transcriptWaiters = useRef<{ episodeIds: string[]; resolve: () => void }[]>([]);
+
+  // Only episodes that were added, changed or removed get re-indexed; the current query is re-run afterwards
+  useEffect(() => {
+    if (libraryWorker.syncEpisodes(episodes) && lastSearch.current.query) {
+      runSearch(lastSearch.current.query, lastSearch.current.options);
+    }
+    transcriptWaiters.current = transcriptWaiters.current.filter(waiter => {
+      if (waiter.episodeIds.some(episodeId => pendingTranscriptIds.has(episodeId))) return true;
+      waiter.resolve();
+      return false;
+    });
+  }, [libraryWorker, episodes, pendingTranscriptIds, runSearch]);
 
   const addNotification = useCallback((type: Notification['type'], message: string) => {
     const id = Date.now().toString();
@@ -42,48 +123,325 @@ function App() {
     setNotifications(prev => prev.filter(n => n.id !== id));
   }, []);
 
-  const handleFilesProcessed = useCallback(async (files: FileList) => {
+  useEffect(() => {
+    if (library.migratedCount > 0) {
+      addNotification('info', `Moved ${library.migratedCount} episode(s) to the new library storage`);
+    }
+  }, [library.migratedCount, addNotification]);
+
+  const { error: libraryError, dismissError } = library;
+  useEffect(() => {
+    if (libraryError) {
+      addNotification('error', libraryError.message);
+      dismissError();
+    }
+  }, [libraryError, dismissError, addNotification]);
+
+  // A file is finished once progress moves on to the next one
+  const handleImportProgress = useCallback((progress: ImportProgress) => {
+    setImportState(prev => {
+      if (!prev) return prev;
+      const previousFile = prev.progress?.fileName;
+      const completedFiles = previousFile && previousFile !== progress.fileName
+        ? [...prev.completedFiles, previousFile]
+        : prev.completedFiles;
+      return { ...prev, progress, completedFiles };
+    });
+  }, []);
+
+  const finishImport = useCallback((importReport: ImportReport) => {
+    const report = ignoredFileCount.current > 0
+      ? { ...importReport, ignoredFiles: ignoredFileCount.current }
+      : importReport;
+    importController.current = null;
+    pendingImport.current = null;
+    setIsProcessing(false);
+    setLastImportReport(report);
+    setImportState(prev => prev && { ...prev, duplicateMatches: undefined, report });
+  }, [setLastImportReport]);
+
+  // Adds the parsed episodes, applying the user's choice for each one already in the library
+  const completeImport = useCallback(async (resolutions: Record<string, DuplicateResolution>) => {
+    const pending = pendingImport.current;
+    if (!pending) return;
+    pendingImport.current = null;
+
+    const { result, fileNames, startedAt } = pending;
+    try {
+      // Replacing or merging compares against the library copy's transcript
+      const duplicates = new Map(pending.duplicates);
+      for (const [episodeId, resolution] of Object.entries(resolutions)) {
+        const existing = duplicates.get(episodeId);
+        if (resolution !== 'skip' && existing) {
+          duplicates.set(episodeId, { ...existing, transcript: await getTranscript(existing.id) });
+        }
+      }
+
+      const resolved = DuplicateDetector.resolve(result.episodes, duplicates, resolutions);
+      // New episodes of a podcast with saved speaker names start out with them
+      const added = resolved.added.map(episode => {
+        const speakers = SpeakerRoster.withDefaults(episode, speakerDefaults);
+        return speakers === episode.speakers ? episode : { ...episode, speakers };
+      });
+      const changed = [...added, ...resolved.updated];
+      if (changed.length > 0) {
+        // Storage failures are reported through the library's error state
+        await addEpisodes(changed).catch(() => undefined);
+      }
+
+      if (result.audioAttachments && result.audioAttachments.length > 0) {
+        const attachments = result.audioAttachments;
+        setAudioFiles(prev => {
+          const next = { ...prev };
+          attachments.forEach(attachment => {
+            // Audio matched to a duplicate belongs to the episode already in the library
+            const episodeId = duplicates.get(attachment.episodeId)?.id ?? attachment.episodeId;
+            next[episodeId] = attachment.file;
+          });
+          return next;
+        });
+      }
+
+      const outcomes = Array.from(resolved.outcomes.values());
+      const count = (status: ImportStatus) => outcomes.filter(outcome => outcome.status === status).length;
+      const summary = [
+        resolved.added.length > 0 && `${resolved.added.length} new`,
+        count('replaced') > 0 && `${count('replaced')} replaced`,
+        count('merged') > 0 && `${count('merged')} merged`,
+        count('duplicate') > 0 && `${count('duplicate')} duplicate(s) skipped`
+      ].filter(Boolean);
+      if (summary.length > 0) {
+        addNotification(changed.length > 0 ? 'success' : 'info', `Import finished: ${summary.join(', ')}`);
+      }
+
+      finishImport({
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        cancelled: false,
+        entries: DuplicateDetector.annotateReport(result.report, resolved.outcomes)
+      });
+    } catch (error) {
+      finishImport(failedImportReport(fileNames, startedAt, error));
+    }
+  }, [getTranscript, addEpisodes, addNotification, finishImport, speakerDefaults]);
+
+  const handleFilesProcessed = useCallback(async (files: FileList | File[], ignoredCount = 0) => {
+    const fileList = Array.from(files);
+    const fileNames = fileList.map(file => file.name);
+    const controller = new AbortController();
+    const startedAt = new Date().toISOString();
+    importController.current = controller;
+    ignoredFileCount.current = ignoredCount;
+
     setIsProcessing(true);
     setHasProcessedFiles(true);
-    
+    setImportState({ fileNames, completedFiles: [] });
+
+    let result: FileProcessingResult;
     try {
-      const parser = new FileParser();
-      const result = await parser.processFiles(files);
-      
-      if (result.episodes.length > 0) {
-        setEpisodes(prev => [...prev, ...result.episodes]);
-        addNotification('success', `Successfully processed ${result.episodes.length} episode(s)`);
+      result = await libraryWorker.processFiles(fileList, {
+        signal: controller.signal,
+        onProgress: handleImportProgress
+      });
+    } catch (error) {
+      finishImport(isCancellation(error)
+        ? { startedAt, finishedAt: new Date().toISOString(), cancelled: true, entries: [] }
+        : failedImportReport(fileNames, startedAt, error));
+      return;
+    }
+
+    let duplicates: Map<string, Episode>;
+    try {
+      duplicates = await DuplicateDetector.findDuplicates(result.episodes, episodes, getTranscript);
+    } catch (error) {
+      finishImport(failedImportReport(fileNames, startedAt, error));
+      return;
+    }
+    const matches = DuplicateDetector.libraryMatches(result.episodes, duplicates);
+    pendingImport.current = { result, duplicates, fileNames, startedAt };
+
+    if (matches.length > 0) {
+      // The dialog asks what to do with them and calls completeImport
+      setImportState(prev => prev && { ...prev, duplicateMatches: matches });
+    } else {
+      await completeImport({});
+    }
+  }, [libraryWorker, episodes, getTranscript, handleImportProgress, finishImport, completeImport]);
+
+  const cancelImport = useCallback(() => {
+    const pending = pendingImport.current;
+    if (pending) {
+      finishImport({ startedAt: pending.startedAt, finishedAt: new Date().toISOString(), cancelled: true, entries: [] });
+    } else {
+      importController.current?.abort();
+    }
+  }, [finishImport]);
+
+  const handleAddFiles = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      handleFilesProcessed(files);
+    }
+    // Allow choosing the same files again later
+    e.target.value = '';
+  }, [handleFilesProcessed]);
+
+  // Folders are scanned for the Podcasts data inside, like on the upload screen
+  const handleAddFolder = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      try {
+        const { files: relevant, ignoredCount } = await FolderScanner.fromDirectoryInput(files);
+        handleFilesProcessed(relevant, ignoredCount);
+      } catch (error) {
+        console.error('Error reading folder:', error);
+        addNotification('error', 'Could not read that folder. Please try again.');
       }
-      
-      if (result.errors.length > 0) {
-        result.errors.forEach(error => {
-          addNotification('error', error);
-        });
+    }
+    e.target.value = '';
+  }, [handleFilesProcessed, addNotification]);
+
+  const handleAttachAudio = useCallback((episodeId: string, file: File) => {
+    setAudioFiles(prev => ({ ...prev, [episodeId]: file }));
+    updateEpisode(episodeId, { audioFileName: file.name }).catch(() => undefined);
+  }, [updateEpisode]);
+
+  const handleDetachAudio = useCallback((episodeId: string) => {
+    setAudioFiles(prev => {
+      const next = { ...prev };
+      delete next[episodeId];
+      return next;
+    });
+    updateEpisode(episodeId, { audioFileName: undefined }).catch(() => undefined);
+  }, [updateEpisode]);
+
+  const handleUpdateSpeakers = useCallback((episodeId: string, speakers: Record<string, SpeakerProfile>) => {
+    updateEpisode(episodeId, { speakers }).catch(() => undefined);
+  }, [updateEpisode]);
+
+  const handleUpdateAnnotations = useCallback((episodeId: string, annotations: Annotation[]) => {
+    updateEpisode(episodeId, { annotations }).catch(() => undefined);
+  }, [updateEpisode]);
+
+  const handleSaveSpeakerDefaults = useCallback(async (episode: Episode) => {
+    const defaults = SpeakerRoster.toDefaults(episode, speakerDefaults);
+    setSpeakerDefaults(defaults);
+
+    // Other episodes of the podcast take the names for labels they haven't set themselves
+    const podcastKey = SpeakerRoster.podcastKey(episode.podcastTitle);
+    const others = episodes.filter(other => other.id !== episode.id && SpeakerRoster.podcastKey(other.podcastTitle) === podcastKey);
+    let updatedCount = 0;
+    for (const other of others) {
+      const loaded = { ...other, transcript: await getTranscript(other.id) };
+      const speakers = SpeakerRoster.withDefaults(loaded, defaults);
+      if (speakers !== other.speakers) {
+        updatedCount++;
+        await updateEpisode(other.id, { speakers }).catch(() => undefined);
       }
-      
-      if (result.episodes.length === 0 && result.errors.length === 0) {
-        addNotification('info', 'No transcript data found in the uploaded files');
+    }
+
+    addNotification('success', `Saved speaker names for ${episode.podcastTitle}` +
+      (updatedCount > 0 ? ` and applied them to ${updatedCount} other episode(s)` : ''));
+  }, [speakerDefaults, setSpeakerDefaults, episodes, getTranscript, updateEpisode, addNotification]);
+
+  const applyTranscripts = useCallback(async (updates: TranscriptUpdate[]) => {
+    await Promise.all(updates.map(({ episodeId, transcript }) =>
+      updateEpisode(episodeId, { transcript }).catch(() => undefined)
+    ));
+  }, [updateEpisode]);
+
+  const editHistory = useEditHistory(applyTranscripts);
+  const { record: recordEdit, undo: undoEdit, redo: redoEdit, clear: clearEditHistory } = editHistory;
+
+  const handleEditTranscript = useCallback((episode: Episode, label: string, transcript: TranscriptSegment[]) => {
+    recordEdit(label, [{ episodeId: episode.id, before: episode.transcript, after: transcript }]);
+  }, [recordEdit]);
+
+  // Resolves to null when a newer find took over
+  const handleFind = useCallback(async (pattern: string, options: FindOptions) => {
+    try {
+      const episodeIds = options.episodeIds ?? episodes.map(episode => episode.id);
+      if (episodeIds.some(episodeId => pendingTranscriptIds.has(episodeId))) {
+        const waiter = { episodeIds, resolve: () => {} };
+        const indexed = new Promise<void>(resolve => { waiter.resolve = resolve; });
+        transcriptWaiters.current.push(waiter);
+        try {
+          await loadTranscripts(episodeIds);
+          await indexed;
+        } finally {
+          // A failed load leaves its episodes pending, so nothing else would take the waiter out
+          transcriptWaiters.current = transcriptWaiters.current.filter(other => other !== waiter);
+        }
       }
+      return await libraryWorker.find(pattern, options);
     } catch (error) {
-      addNotification('error', `Failed to process files: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsProcessing(false);
+      if (isCancellation(error)) return null;
+      throw error;
+    }
+  }, [libraryWorker, episodes, pendingTranscriptIds, loadTranscripts]);
+
+  // All replacements go in as one undoable step, however many episodes they touch
+  const handleReplace = useCallback(async (matches: FindMatch[], replacement: string, regex: boolean) => {
+    const episodeIds = Array.from(new Set(matches.map(match => match.episodeId)));
+    const changes: TranscriptChange[] = [];
+    const applied: FindMatch[] = [];
+
+    for (const episodeId of episodeIds) {
+      const episode = episodes.find(candidate => candidate.id === episodeId);
+      if (!episode) continue;
+
+      const before = await getTranscript(episodeId);
+      const result = FindReplace.apply(before, matches.filter(match => match.episodeId === episodeId), replacement, regex);
+      if (result.applied.length === 0) continue;
+
+      changes.push({ episodeId, before, after: result.segments });
+      applied.push(...result.applied);
     }
-  }, [setEpisodes, addNotification]);
 
-  const handleSearch = useCallback((query: string, options: any) => {
+    await recordEdit(applied.length === 1 ? 'Replace match' : `Replace ${applied.length} matches`, changes);
+    return applied;
+  }, [episodes, getTranscript, recordEdit]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), leaving text fields their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoEdit();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoEdit();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undoEdit, redoEdit]);
+
+  // Searching reads in every transcript not loaded yet; the query re-runs as they're indexed
+  const handleSearch = useCallback((query: string, options: SearchOptions = {}) => {
     setSearchQuery(query);
-    const results = searchEngine.search(query, options);
-    setSearchResults(results);
-  }, [searchEngine]);
+    lastSearch.current = { query, options };
+    runSearch(query, options);
+    if (query && pendingTranscriptIds.size > 0) {
+      loadTranscripts(Array.from(pendingTranscriptIds)).catch(() => undefined);
+    }
+  }, [runSearch, pendingTranscriptIds, loadTranscripts]);
 
   const clearAllData = useCallback(() => {
-    setEpisodes([]);
+    clearEpisodes().catch(() => undefined);
+    setAudioFiles({});
     setSearchResults([]);
     setSearchQuery('');
     setHasProcessedFiles(false);
+    clearEditHistory();
     addNotification('info', 'All data cleared');
-  }, [setEpisodes, addNotification]);
+  }, [clearEpisodes, clearEditHistory, addNotification]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
@@ -118,8 +476,26 @@ function App() {
         ))}
       </div>
 
+      {importState && (
+        <ImportDialog
+          fileNames={importState.fileNames}
+          completedFiles={importState.completedFiles}
+          progress={importState.progress}
+          duplicateMatches={importState.duplicateMatches}
+          report={importState.report}
+          onResolveDuplicates={completeImport}
+          onCancel={cancelImport}
+          onClose={() => setImportState(null)}
+        />
+      )}
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
-        {episodes.length === 0 ? (
+        {library.isLoading ? (
+          <div className="flex flex-col items-center justify-center py-24 space-y-4">
+            <LoadingSpinner size="lg" />
+            <p className="text-gray-600">Loading your library...</p>
+          </div>
+        ) : episodes.length === 0 ? (
           <>
             {/* Welcome Section */}
             <div className="text-center py-12">
@@ -266,12 +642,13 @@ function App() {
                         Upload the Data Files
                       </h4>
                       <p className="text-gray-600 mb-3">
-                        Drag and drop <strong>all the contents</strong> of that folder into the upload area above.
+                        Drag <strong>the whole folder</strong> into the upload area above, or use <strong>Choose a folder</strong>.
+                        Transcripts and the Podcasts library are picked out and everything else is ignored.
                       </p>
                       <div className="bg-green-50 border border-green-200 rounded-lg p-3">
                         <div className="flex items-center space-x-2 text-green-700">
                           <Mouse className="w-4 h-4" />
-                          <span className="text-sm font-medium">Select all files (Cmd+A) and drag them to the upload zone</span>
+                          <span className="text-sm font-medium">Drag the folder from the Finder's title bar or sidebar to the upload zone</span>
                         </div>
                       </div>
                     </div>
@@ -288,15 +665,23 @@ function App() {
                       <ul className="space-y-2 text-gray-600">
                         <li className="flex items-center space-x-2">
                           <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                          <span>JSON transcript files</span>
+                          <span>JSON transcript files, including Podcasting 2.0</span>
                         </li>
                         <li className="flex items-center space-x-2">
                           <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                           <span>PLIST/XML data exports</span>
                         </li>
+                        <li className="flex items-center space-x-2">
+                          <div className="w-2 h-2 bg-pink-500 rounded-full"></div>
+                          <span>TTML transcript cache files</span>
+                        </li>
+                        <li className="flex items-center space-x-2">
+                          <div className="w-2 h-2 bg-teal-500 rounded-full"></div>
+                          <span>WebVTT and SRT caption files</span>
+                        </li>
                         <li className="flex items-center space-x-2">
                           <div className="w-2 h-2 bg-orange-500 rounded-full"></div>
-                          <span>SQLite database files</span>
+                          <span>Podcasts library database (Documents/MTLibrary.sqlite) for real titles and dates</span>
                         </li>
                         <li className="flex items-center space-x-2">
                           <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
@@ -342,10 +727,42 @@ function App() {
         ) : (
           <>
             {/* Search Bar */}
-            <SearchBar onSearch={handleSearch} />
+            <SearchBar onSearch={handleSearch} error={searchError} />
             
-            {/* Clear Data Button */}
-            <div className="text-center">
+            {/* Library Actions */}
+            <div className="flex flex-wrap items-center justify-center gap-6">
+              <label className={`flex items-center gap-1 text-sm text-gray-500 hover:text-purple-600 transition-colors ${isProcessing ? 'pointer-events-none opacity-60' : 'cursor-pointer'}`}>
+                <Upload className="w-4 h-4" />
+                Import more files
+                <input
+                  type="file"
+                  multiple
+                  accept={ACCEPTED_FILE_TYPES}
+                  onChange={handleAddFiles}
+                  className="hidden"
+                  disabled={isProcessing}
+                />
+              </label>
+              <label className={`flex items-center gap-1 text-sm text-gray-500 hover:text-purple-600 transition-colors ${isProcessing ? 'pointer-events-none opacity-60' : 'cursor-pointer'}`}>
+                <FolderOpen className="w-4 h-4" />
+                Import a folder
+                <input
+                  type="file"
+                  ref={input => input?.setAttribute('webkitdirectory', '')}
+                  onChange={handleAddFolder}
+                  className="hidden"
+                  disabled={isProcessing}
+                />
+              </label>
+              {lastImportReport && (
+                <button
+                  onClick={() => setImportState({ fileNames: [], completedFiles: [], report: lastImportReport })}
+                  className="flex items-center gap-1 text-sm text-gray-500 hover:text-purple-600 transition-colors"
+                >
+                  <ClipboardList className="w-4 h-4" />
+                  Last import report
+                </button>
+              )}
               <button
                 onClick={clearAllData}
                 className="text-sm text-gray-500 hover:text-red-600 transition-colors"
@@ -360,6 +777,19 @@ function App() {
               searchResults={searchResults}
               onSearch={handleSearch}
               searchQuery={searchQuery}
+              pendingTranscriptIds={library.pendingTranscriptIds}
+              onLoadTranscript={library.loadTranscript}
+              getTranscript={library.getTranscript}
+              audioFiles={audioFiles}
+              onAttachAudio={handleAttachAudio}
+              onDetachAudio={handleDetachAudio}
+              onUpdateSpeakers={handleUpdateSpeakers}
+              onSaveSpeakerDefaults={handleSaveSpeakerDefaults}
+              onEditTranscript={handleEditTranscript}
+              editHistory={editHistory}
+              onFind={handleFind}
+              onReplace={handleReplace}
+              onUpdateAnnotations={handleUpdateAnnotations}
             />
           </>
         )}
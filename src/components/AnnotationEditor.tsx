@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Bookmark, Check, Highlighter, X } from 'lucide-react';
+import { AnnotationKind } from '../types/transcript';
+import { EpisodeAnnotations } from '../utils/episodeAnnotations';
+
+interface AnnotationEditorProps {
+  kind: AnnotationKind;
+  quote?: string;
+  initialNote?: string;
+  initialTags?: string[];
+  knownTags: string[];
+  onSave: (note: string, tags: string[]) => void;
+  onCancel: () => void;
+}
+
+export function AnnotationEditor({ kind, quote, initialNote = '', initialTags = [], knownTags, onSave, onCancel }: AnnotationEditorProps) {
+  const [note, setNote] = useState(initialNote);
+  const [tags, setTags] = useState(initialTags.join(', '));
+  const Icon = kind === 'highlight' ? Highlighter : Bookmark;
+
+  const handleSave = () => onSave(note, EpisodeAnnotations.parseTags(tags));
+
+  return (
+    <div
+      className="mt-3 p-3 rounded-lg border border-amber-200 bg-amber-50 space-y-2"
+      onClick={e => e.stopPropagation()}
+      onKeyDown={e => {
+        if (e.key === 'Escape') onCancel();
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSave();
+      }}
+    >
+      <p className="flex items-start gap-2 text-sm text-gray-700">
+        <Icon className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600" />
+        {quote ? <q className="italic">{quote}</q> : <span>Bookmark</span>}
+      </p>
+      <textarea
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        rows={2}
+        autoFocus
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-400"
+      />
+      <input
+        value={tags}
+        onChange={e => setTags(e.target.value)}
+        placeholder={knownTags.length > 0 ? `Tags, e.g. ${knownTags.slice(0, 3).join(', ')}` : 'Tags, separated by commas'}
+        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-400"
+      />
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-amber-500 text-white hover:bg-amber-600 transition-colors font-medium"
+        >
+          <Check className="w-4 h-4" />
+          Save
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-gray-600 hover:bg-amber-100 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
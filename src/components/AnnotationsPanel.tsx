@@ -0,0 +1,254 @@
+import { useMemo, useState } from 'react';
+import { Bookmark, Copy, Download, Highlighter, NotebookPen, Pencil, Tag, Trash2, X } from 'lucide-react';
+import { Annotation, Episode, TranscriptSegment } from '../types/transcript';
+import { AnnotationEntry, AnnotationFilters, EpisodeAnnotations } from '../utils/episodeAnnotations';
+import { ExportUtils, NotebookFormat } from '../utils/exportUtils';
+import { AnnotationEditor } from './AnnotationEditor';
+
+interface AnnotationsPanelProps {
+  episodes: Episode[];
+  activeEpisodeId?: string;
+  formatTime: (seconds: number) => string;
+  getTranscript: (episodeId: string) => Promise<TranscriptSegment[]>;
+  onOpen: (entry: AnnotationEntry) => void;
+  onUpdate: (episodeId: string, annotations: Annotation[]) => void;
+  onClose: () => void;
+}
+
+export function AnnotationsPanel({ episodes, activeEpisodeId, formatTime, getTranscript, onOpen, onUpdate, onClose }: AnnotationsPanelProps) {
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [podcastFilter, setPodcastFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [notebookFormat, setNotebookFormat] = useState<NotebookFormat>('markdown');
+  const [exportStatus, setExportStatus] = useState<string | undefined>();
+
+  const entries = useMemo(() => EpisodeAnnotations.collect(episodes), [episodes]);
+  const tags = useMemo(() => EpisodeAnnotations.allTags(episodes), [episodes]);
+  const podcasts = useMemo(() => Array.from(new Set(entries.map(({ episode }) => episode.podcastTitle))).sort(), [entries]);
+
+  // The list shows exactly what an export would contain; the export filters
+  // only apply while their controls are open
+  const filters: AnnotationFilters = {
+    tag: tagFilter ?? undefined,
+    ...(showExport ? { podcast: podcastFilter || undefined, from: fromDate || undefined, to: toDate || undefined } : {})
+  };
+  const visible = EpisodeAnnotations.filter(entries, filters);
+
+  // Highlight times and speakers come from the transcripts, which episodes
+  // that haven't been opened yet don't have in memory
+  const notebookContent = async () => {
+    const episodeIds = new Set(visible.map(({ episode }) => episode.id));
+    const annotated = await Promise.all(episodes
+      .filter(episode => episodeIds.has(episode.id))
+      .map(async episode => ({ ...episode, transcript: await getTranscript(episode.id) })));
+    return ExportUtils.exportAnnotations(annotated, notebookFormat, filters);
+  };
+
+  const handleDownload = async () => {
+    const date = new Date().toISOString().slice(0, 10);
+    const filename = `research-notebook-${date}.${ExportUtils.getNotebookExtension(notebookFormat)}`;
+    try {
+      ExportUtils.downloadFile(await notebookContent(), filename, notebookFormat);
+    } catch (error) {
+      console.error('Failed to export annotations:', error);
+      setExportStatus('Could not read the transcripts to export');
+    }
+  };
+
+  const handleCopy = async () => {
+    let content: string;
+    try {
+      content = await notebookContent();
+    } catch (error) {
+      console.error('Failed to export annotations:', error);
+      setExportStatus('Could not read the transcripts to export');
+      return;
+    }
+
+    try {
+      await ExportUtils.copyToClipboard(content);
+      setExportStatus(`Copied ${visible.length} annotation${visible.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+      setExportStatus('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 lg:sticky lg:top-24">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <NotebookPen className="w-5 h-5 text-amber-600" />
+          Annotations ({entries.length})
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowExport(!showExport)}
+            disabled={entries.length === 0}
+            title="Filter and export as a notebook"
+            className={`p-1 rounded transition-colors disabled:opacity-40 ${showExport ? 'text-amber-600' : 'text-gray-400 hover:text-gray-600'}`}
+          >
+            <Download className="w-5 h-5" />
+          </button>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {showExport && entries.length > 0 && (
+        <div className="mb-4 p-3 rounded-lg bg-gray-50 space-y-3 text-sm">
+          <select
+            value={podcastFilter}
+            onChange={e => setPodcastFilter(e.target.value)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-gray-700"
+          >
+            <option value="">All podcasts</option>
+            {podcasts.map(podcast => (
+              <option key={podcast} value={podcast}>{podcast}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2 text-gray-600">
+            <input
+              type="date"
+              value={fromDate}
+              onChange={e => setFromDate(e.target.value)}
+              title="Annotated on or after"
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={toDate}
+              onChange={e => setToDate(e.target.value)}
+              title="Annotated on or before"
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={notebookFormat}
+              onChange={e => setNotebookFormat(e.target.value as NotebookFormat)}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-gray-700"
+            >
+              <option value="markdown">Markdown</option>
+              <option value="html">HTML</option>
+              <option value="json">JSON</option>
+            </select>
+            <span className="flex-1" />
+            <button
+              onClick={handleCopy}
+              disabled={visible.length === 0}
+              title="Copy notebook"
+              className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={visible.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50 transition-colors font-medium"
+            >
+              <Download className="w-4 h-4" />
+              Export {visible.length}
+            </button>
+          </div>
+          {exportStatus && <p className="text-xs text-gray-500">{exportStatus}</p>}
+        </div>
+      )}
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[null, ...tags].map(tag => (
+            <button
+              key={tag ?? ''}
+              onClick={() => setTagFilter(tag)}
+              className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium transition-colors ${
+                tagFilter === tag ? 'bg-amber-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {tag && <Tag className="w-3 h-3" />}
+              {tag ?? 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          {entries.length === 0
+            ? 'Select text in the transcript to highlight it, or bookmark a segment.'
+            : 'No annotations match these filters.'}
+        </p>
+      ) : (
+        <ul className="max-h-[32rem] overflow-y-auto divide-y divide-gray-100">
+          {visible.map(entry => {
+            const { episode, annotation } = entry;
+            const Icon = annotation.kind === 'highlight' ? Highlighter : Bookmark;
+            // Only judge whether a highlight still fits once the transcript has loaded
+            const isOrphaned = episode.transcript.length > 0 && !EpisodeAnnotations.resolve(episode, annotation);
+
+            return (
+              <li key={annotation.id} className="py-3">
+                <button onClick={() => onOpen(entry)} className="w-full text-left group">
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <Icon className="w-3.5 h-3.5 text-amber-600" />
+                    <span className="font-mono">{formatTime(annotation.timestamp)}</span>
+                    {episode.id !== activeEpisodeId && <span className="truncate">{episode.title}</span>}
+                  </div>
+                  {annotation.quote && (
+                    <q className={`block mt-1 text-sm italic group-hover:text-purple-700 ${isOrphaned ? 'text-gray-400 line-through' : 'text-gray-800'}`}>
+                      {annotation.quote}
+                    </q>
+                  )}
+                </button>
+                {isOrphaned && <p className="mt-1 text-xs text-red-600">This text is no longer in the transcript.</p>}
+
+                {editingId === annotation.id ? (
+                  <AnnotationEditor
+                    kind={annotation.kind}
+                    initialNote={annotation.note}
+                    initialTags={annotation.tags}
+                    knownTags={tags}
+                    onSave={(note, newTags) => {
+                      onUpdate(episode.id, EpisodeAnnotations.update(episode, annotation.id, { note, tags: newTags }));
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <>
+                    {annotation.note && <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{annotation.note}</p>}
+                    <div className="mt-2 flex flex-wrap items-center gap-1">
+                      {annotation.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs">{tag}</span>
+                      ))}
+                      <span className="flex-1" />
+                      <button
+                        onClick={() => setEditingId(annotation.id)}
+                        title="Edit note and tags"
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => onUpdate(episode.id, EpisodeAnnotations.remove(episode, annotation.id))}
+                        title="Delete"
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
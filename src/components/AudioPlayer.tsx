@@ -0,0 +1,109 @@
+import React from 'react';
+import { Play, Pause, RotateCcw, RotateCw, X } from 'lucide-react';
+
+interface AudioPlayerProps {
+  audioRef: React.RefObject<HTMLAudioElement>;
+  audioUrl?: string;
+  fileName?: string;
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+  playbackRate: number;
+  onToggle: () => void;
+  onSeek: (time: number) => void;
+  onPlaybackRateChange: (rate: number) => void;
+  onDetach?: () => void;
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export function AudioPlayer({
+  audioRef,
+  audioUrl,
+  fileName,
+  currentTime,
+  duration,
+  isPlaying,
+  playbackRate,
+  onToggle,
+  onSeek,
+  onPlaybackRateChange,
+  onDetach
+}: AudioPlayerProps) {
+  const formatTime = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+    
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+    
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="sticky bottom-0 bg-white/95 backdrop-blur-sm border-t border-gray-200 rounded-b-xl px-6 py-4">
+      <audio ref={audioRef} src={audioUrl} preload="metadata" />
+      
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => onSeek(currentTime - 15)}
+          className="p-2 rounded-full text-gray-600 hover:bg-gray-100 transition-colors"
+          title="Back 15 seconds"
+        >
+          <RotateCcw className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onToggle}
+          className="p-3 rounded-full bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+        >
+          {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <button
+          onClick={() => onSeek(currentTime + 15)}
+          className="p-2 rounded-full text-gray-600 hover:bg-gray-100 transition-colors"
+          title="Forward 15 seconds"
+        >
+          <RotateCw className="w-5 h-5" />
+        </button>
+        
+        <span className="text-sm text-gray-500 font-mono w-16 text-right">{formatTime(currentTime)}</span>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.1}
+          value={Math.min(currentTime, duration || 0)}
+          onChange={(e) => onSeek(parseFloat(e.target.value))}
+          className="flex-1 accent-purple-600"
+        />
+        <span className="text-sm text-gray-500 font-mono w-16">{formatTime(duration)}</span>
+        
+        <select
+          value={playbackRate}
+          onChange={(e) => onPlaybackRateChange(parseFloat(e.target.value))}
+          className="text-sm border border-gray-300 rounded-lg px-2 py-1"
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}×</option>
+          ))}
+        </select>
+        
+        {onDetach && (
+          <button
+            onClick={onDetach}
+            className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+            title="Remove audio"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      
+      {fileName && (
+        <p className="mt-2 text-xs text-gray-500 truncate">{fileName}</p>
+      )}
+    </div>
+  );
+}
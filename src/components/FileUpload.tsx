@@ -1,13 +1,36 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, FolderOpen } from 'lucide-react';
+import { FolderScanner, FolderScanResult } from '../utils/folderScanner';
+
+export const ACCEPTED_FILE_TYPES = '.json,.plist,.xml,.ttml,.vtt,.srt,.zip,.sqlite,.db,.mp3,.m4a';
 
 interface FileUploadProps {
-  onFilesProcessed: (files: FileList) => void;
+  // ignoredCount is set when a folder was scanned and unrelated files were left out
+  onFilesProcessed: (files: FileList | File[], ignoredCount?: number) => void;
   isProcessing: boolean;
 }
 
 export function FileUpload({ onFilesProcessed, isProcessing }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const importFolder = useCallback(async (scan: Promise<FolderScanResult | null>, fallback?: FileList) => {
+    setIsScanning(true);
+    try {
+      const result = await scan;
+      if (result) {
+        onFilesProcessed(result.files, result.ignoredCount);
+      } else if (fallback && fallback.length > 0) {
+        onFilesProcessed(fallback);
+      }
+    } catch (error) {
+      console.error('Error reading folder:', error);
+      // Browsers without folder support still give us the top-level files
+      if (fallback && fallback.length > 0) onFilesProcessed(fallback);
+    } finally {
+      setIsScanning(false);
+    }
+  }, [onFilesProcessed]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -23,11 +46,9 @@ export function FileUpload({ onFilesProcessed, isProcessing }: FileUploadProps)
     e.preventDefault();
     setIsDragOver(false);
     
-    const files = e.dataTransfer.files;
-    if (files.length > 0) {
-      onFilesProcessed(files);
-    }
-  }, [onFilesProcessed]);
+    // Folders are walked for the files inside; a plain drop of files goes straight through
+    importFolder(FolderScanner.fromDataTransfer(e.dataTransfer), e.dataTransfer.files);
+  }, [importFolder]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -36,6 +57,16 @@ export function FileUpload({ onFilesProcessed, isProcessing }: FileUploadProps)
     }
   }, [onFilesProcessed]);
 
+  const handleFolderSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      importFolder(FolderScanner.fromDirectoryInput(files));
+    }
+    e.target.value = '';
+  }, [importFolder]);
+
+  const isBusy = isProcessing || isScanning;
+
   return (
     <div className="max-w-4xl mx-auto">
       <div
@@ -45,7 +76,7 @@ export function FileUpload({ onFilesProcessed, isProcessing }: FileUploadProps)
             ? 'border-purple-500 bg-purple-50 scale-105' 
             : 'border-gray-300 hover:border-purple-400'
           }
-          ${isProcessing ? 'pointer-events-none opacity-60' : ''}
+          ${isBusy ? 'pointer-events-none opacity-60' : ''}
         `}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
@@ -55,15 +86,15 @@ export function FileUpload({ onFilesProcessed, isProcessing }: FileUploadProps)
           type="file"
           id="file-upload"
           multiple
-          accept=".json,.plist,.xml,.zip"
+          accept={ACCEPTED_FILE_TYPES}
           onChange={handleFileSelect}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          disabled={isProcessing}
+          disabled={isBusy}
         />
         
         <div className="space-y-6">
           <div className={`transition-transform duration-300 ${isDragOver ? 'scale-110' : ''}`}>
-            {isProcessing ? (
+            {isBusy ? (
               <div className="animate-spin mx-auto w-16 h-16 border-4 border-purple-200 border-t-purple-600 rounded-full"></div>
             ) : (
               <Upload className="mx-auto w-16 h-16 text-purple-600" />
@@ -72,11 +103,23 @@ export function FileUpload({ onFilesProcessed, isProcessing }: FileUploadProps)
           
           <div>
             <h3 className="text-2xl font-bold text-gray-900 mb-2">
-              {isProcessing ? 'Processing Files...' : 'Upload Podcast Data'}
+              {isScanning ? 'Reading Folder...' : isProcessing ? 'Processing Files...' : 'Upload Podcast Data'}
             </h3>
-            <p className="text-gray-600 mb-6">
-              Drag and drop your Apple Podcast data files here, or click to browse
+            <p className="text-gray-600 mb-3">
+              Drag and drop your Apple Podcast data files or the whole data folder here, or click to browse
             </p>
+            {/* Sits above the full-size file input so clicks reach it */}
+            <label className="relative z-10 inline-flex items-center gap-2 px-4 py-2 mb-3 rounded-lg bg-purple-100 text-purple-700 hover:bg-purple-200 cursor-pointer transition-colors">
+              <FolderOpen className="w-4 h-4" />
+              Choose a folder
+              <input
+                type="file"
+                ref={input => input?.setAttribute('webkitdirectory', '')}
+                onChange={handleFolderSelect}
+                className="hidden"
+                disabled={isBusy}
+              />
+            </label>
           </div>
           
           <div className="grid md:grid-cols-3 gap-4 text-sm">
@@ -0,0 +1,287 @@
+import React, { useMemo, useState } from 'react';
+import { Replace, Search, Undo2, X } from 'lucide-react';
+import { Episode, FindMatch, FindOptions } from '../types/transcript';
+import { EpisodeIdentity } from '../utils/episodeIdentity';
+import { FindReplace } from '../utils/findReplace';
+import { LoadingSpinner } from './LoadingSpinner';
+
+type FindScope = 'episode' | 'podcast' | 'library';
+
+// Characters of surrounding text shown either side of a match
+const CONTEXT_LENGTH = 40;
+// Long match lists are cut off in the preview; Replace all still covers every match
+const MAX_PREVIEW_MATCHES = 300;
+
+interface FindReplacePanelProps {
+  episodes: Episode[];
+  currentEpisode: Episode;
+  onFind: (pattern: string, options: FindOptions) => Promise<FindMatch[] | null>;
+  onReplace: (matches: FindMatch[], replacement: string, regex: boolean) => Promise<FindMatch[]>;
+  onOpenMatch: (match: FindMatch) => void;
+  onUndo: () => void;
+  formatTime: (seconds: number) => string;
+  onClose: () => void;
+}
+
+export function FindReplacePanel({
+  episodes,
+  currentEpisode,
+  onFind,
+  onReplace,
+  onOpenMatch,
+  onUndo,
+  formatTime,
+  onClose
+}: FindReplacePanelProps) {
+  const [pattern, setPattern] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWords, setWholeWords] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const [scope, setScope] = useState<FindScope>('episode');
+  // The regex flag is kept from the find, since the matches' captures depend on it
+  const [found, setFound] = useState<{ matches: FindMatch[]; regex: boolean } | null>(null);
+  const [error, setError] = useState<string | undefined>();
+  const [status, setStatus] = useState<string | undefined>();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const episodesById = useMemo(() => new Map(episodes.map(episode => [episode.id, episode])), [episodes]);
+
+  const scopeEpisodeIds = (): string[] | undefined => {
+    if (scope === 'library') return undefined;
+    if (scope === 'episode') return [currentEpisode.id];
+    const podcast = EpisodeIdentity.normalize(currentEpisode.podcastTitle);
+    return episodes
+      .filter(episode => EpisodeIdentity.normalize(episode.podcastTitle) === podcast)
+      .map(episode => episode.id);
+  };
+
+  const handleFind = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!pattern) return;
+
+    setIsBusy(true);
+    setError(undefined);
+    setStatus(undefined);
+    try {
+      const matches = await onFind(pattern, { caseSensitive, wholeWords, regex, episodeIds: scopeEpisodeIds() });
+      // A newer find replaced this one
+      if (matches) setFound({ matches, regex });
+    } catch (findError) {
+      setFound(null);
+      setError(findError instanceof Error ? findError.message : 'Find failed. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReplace = async (match: FindMatch) => {
+    if (!found) return;
+    try {
+      const applied = await onReplace([match], replacement, found.regex);
+      if (applied.length > 0) {
+        const replacementText = FindReplace.replacementFor(match, replacement, found.regex);
+        setFound({ ...found, matches: FindReplace.shiftAfter(found.matches, match, replacementText) });
+        setStatus('Replaced 1 match.');
+        setError(undefined);
+      } else {
+        // Nothing changed, so the matches after it still have the right offsets
+        setFound({ ...found, matches: found.matches.filter(other => other !== match) });
+        setStatus(undefined);
+        setError('That text has changed since the search. Find again to refresh the matches.');
+      }
+    } catch (replaceError) {
+      setStatus(undefined);
+      setError(replaceError instanceof Error ? replaceError.message : 'Replace failed. Please try again.');
+    }
+  };
+
+  const handleReplaceAll = async () => {
+    if (!found || found.matches.length === 0) return;
+    setIsBusy(true);
+    try {
+      const applied = await onReplace(found.matches, replacement, found.regex);
+      setFound({ ...found, matches: [] });
+      setStatus(`Replaced ${applied.length} match${applied.length === 1 ? '' : 'es'}` +
+        (applied.length < found.matches.length ? ` (${found.matches.length - applied.length} had changed since the search)` : '') + '.');
+    } catch (replaceError) {
+      setStatus(undefined);
+      setError(replaceError instanceof Error ? replaceError.message : 'Replace failed. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Matches grouped by episode in library order, each group in transcript order
+  const groups = useMemo(() => {
+    if (!found) return [];
+    const byEpisode = new Map<string, FindMatch[]>();
+    found.matches.slice(0, MAX_PREVIEW_MATCHES).forEach(match => {
+      byEpisode.set(match.episodeId, [...(byEpisode.get(match.episodeId) || []), match]);
+    });
+    return episodes
+      .filter(episode => byEpisode.has(episode.id))
+      .map(episode => ({
+        episode,
+        matches: byEpisode.get(episode.id)!.sort((a, b) => a.timestamp - b.timestamp || a.start - b.start)
+      }));
+  }, [found, episodes]);
+
+  const renderContext = (match: FindMatch) => {
+    const segment = episodesById.get(match.episodeId)?.transcript.find(candidate => candidate.id === match.segmentId);
+    const text = segment?.text || match.text;
+    const start = segment ? match.start : 0;
+    const end = segment ? match.end : match.text.length;
+    const before = text.slice(Math.max(0, start - CONTEXT_LENGTH), start);
+    const after = text.slice(end, end + CONTEXT_LENGTH);
+
+    return (
+      <>
+        {start > CONTEXT_LENGTH && '…'}
+        {before}
+        <del className="bg-red-100 text-red-800 rounded px-0.5">{match.text}</del>
+        <ins className="bg-green-100 text-green-800 rounded px-0.5 no-underline">
+          {FindReplace.replacementFor(match, replacement, found!.regex)}
+        </ins>
+        {after}
+        {end + CONTEXT_LENGTH < text.length && '…'}
+      </>
+    );
+  };
+
+  const episodeCount = new Set(found?.matches.map(match => match.episodeId)).size;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Replace className="w-5 h-5 text-purple-600" />
+          Find and replace
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleFind} className="space-y-3">
+        <div className="grid md:grid-cols-2 gap-3">
+          <input
+            value={pattern}
+            onChange={e => setPattern(e.target.value)}
+            placeholder={regex ? 'Regular expression' : 'Find'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <input
+            value={replacement}
+            onChange={e => setReplacement(e.target.value)}
+            placeholder={regex ? 'Replace with ($1 for groups)' : 'Replace with'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={caseSensitive} onChange={e => setCaseSensitive(e.target.checked)} className="rounded" />
+            Match case
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={wholeWords} onChange={e => setWholeWords(e.target.checked)} className="rounded" />
+            Whole words
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={regex} onChange={e => setRegex(e.target.checked)} className="rounded" />
+            Regex
+          </label>
+          <select
+            value={scope}
+            onChange={e => setScope(e.target.value as FindScope)}
+            className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="episode">This episode</option>
+            <option value="podcast">All of {currentEpisode.podcastTitle}</option>
+            <option value="library">Whole library</option>
+          </select>
+          <span className="flex-1" />
+          <button
+            type="submit"
+            disabled={!pattern || isBusy}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-purple-100 text-purple-700 hover:bg-purple-200 disabled:opacity-50 transition-colors font-medium"
+          >
+            <Search className="w-4 h-4" />
+            Find all
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      {status && (
+        <p className="mt-4 flex items-center gap-3 text-sm text-green-700">
+          {status}
+          <button onClick={onUndo} className="flex items-center gap-1 px-2 py-1 rounded text-gray-600 hover:bg-gray-100 transition-colors">
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+        </p>
+      )}
+
+      {isBusy && (
+        <div className="mt-4 flex items-center gap-3 text-sm text-gray-500">
+          <LoadingSpinner size="sm" />
+          <span>Working...</span>
+        </div>
+      )}
+
+      {found && !isBusy && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <p className="text-sm text-gray-600">
+              {found.matches.length === 0
+                ? 'No matches.'
+                : `${found.matches.length} match${found.matches.length === 1 ? '' : 'es'} in ${episodeCount} episode${episodeCount === 1 ? '' : 's'}` +
+                  (found.matches.length > MAX_PREVIEW_MATCHES ? `, showing the first ${MAX_PREVIEW_MATCHES}` : '')}
+            </p>
+            {found.matches.length > 0 && (
+              <button
+                onClick={handleReplaceAll}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-purple-600 text-white hover:bg-purple-700 transition-colors text-sm font-medium"
+              >
+                <Replace className="w-4 h-4" />
+                Replace all
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto space-y-4">
+            {groups.map(({ episode, matches }) => (
+              <div key={episode.id}>
+                <h4 className="text-sm font-medium text-gray-900 mb-1">
+                  {episode.title}
+                  <span className="text-gray-500 font-normal"> • {episode.podcastTitle}</span>
+                </h4>
+                <ul className="divide-y divide-gray-100">
+                  {matches.map(match => (
+                    <li key={`${match.segmentId}:${match.start}`} className="py-2 flex items-start gap-3 text-sm">
+                      <span className="flex-shrink-0 font-mono text-gray-500">{formatTime(match.timestamp)}</span>
+                      <button
+                        onClick={() => onOpenMatch(match)}
+                        className="flex-1 text-left text-gray-800 hover:text-purple-700"
+                      >
+                        {renderContext(match)}
+                      </button>
+                      <button
+                        onClick={() => handleReplace(match)}
+                        className="flex-shrink-0 px-2 py-1 rounded text-purple-700 hover:bg-purple-50 transition-colors"
+                      >
+                        Replace
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, Circle, Copy, Download, GitMerge, MinusCircle, RefreshCw, X, XCircle } from 'lucide-react';
+import { DuplicateResolution, ImportReport, ImportStatus } from '../types/transcript';
+import { ImportProgress } from '../utils/fileParser';
+import { ExportUtils } from '../utils/exportUtils';
+import { DuplicateMatch } from '../utils/duplicateDetector';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface ImportDialogProps {
+  fileNames: string[];
+  completedFiles: string[];
+  progress?: ImportProgress;
+  duplicateMatches?: DuplicateMatch[];
+  report?: ImportReport;
+  onResolveDuplicates: (resolutions: Record<string, DuplicateResolution>) => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  imported: 'Imported',
+  replaced: 'Replaced',
+  merged: 'Merged',
+  duplicate: 'Duplicate',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  imported: 'bg-green-100 text-green-800',
+  replaced: 'bg-purple-100 text-purple-800',
+  merged: 'bg-indigo-100 text-indigo-800',
+  duplicate: 'bg-blue-100 text-blue-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const STATUS_ICONS: Record<ImportStatus, React.ReactNode> = {
+  imported: <CheckCircle className="w-4 h-4 text-green-600" />,
+  replaced: <RefreshCw className="w-4 h-4 text-purple-600" />,
+  merged: <GitMerge className="w-4 h-4 text-indigo-600" />,
+  duplicate: <Copy className="w-4 h-4 text-blue-600" />,
+  skipped: <MinusCircle className="w-4 h-4 text-gray-400" />,
+  failed: <XCircle className="w-4 h-4 text-red-600" />
+};
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  skip: 'Skip',
+  replace: 'Replace',
+  merge: 'Merge'
+};
+
+export function ImportDialog({
+  fileNames,
+  completedFiles,
+  progress,
+  duplicateMatches,
+  report,
+  onResolveDuplicates,
+  onCancel,
+  onClose
+}: ImportDialogProps) {
+  const [statusFilter, setStatusFilter] = useState<ImportStatus | 'all'>('all');
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateResolution>>({});
+
+  const counts = useMemo(() => {
+    const totals: Record<ImportStatus, number> = { imported: 0, replaced: 0, merged: 0, duplicate: 0, skipped: 0, failed: 0 };
+    report?.entries.forEach(entry => {
+      totals[entry.status]++;
+    });
+    return totals;
+  }, [report]);
+
+  const completed = useMemo(() => new Set(completedFiles), [completedFiles]);
+
+  const visibleEntries = report
+    ? report.entries.filter(entry => statusFilter === 'all' || entry.status === statusFilter)
+    : [];
+
+  // ZIP entries move the bar within their archive's share of the import
+  const percent = progress && progress.fileCount > 0
+    ? Math.round(100 * (progress.filesProcessed +
+        (progress.entryCount ? (progress.entriesProcessed || 0) / progress.entryCount : 0)) / progress.fileCount)
+    : 0;
+
+  const resolutionFor = (episodeId: string): DuplicateResolution => resolutions[episodeId] || 'skip';
+
+  const applyToAll = (resolution: DuplicateResolution) => {
+    setResolutions(Object.fromEntries((duplicateMatches || []).map(match => [match.incoming.id, resolution])));
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!report) return;
+    const content = format === 'csv'
+      ? ExportUtils.exportImportReportAsCsv(report)
+      : ExportUtils.exportImportReportAsJson(report);
+    const stamp = report.finishedAt.slice(0, 19).replace(/[:T]/g, '-');
+    ExportUtils.downloadFile(content, `import-report-${stamp}.${format}`, format);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-gray-200 flex items-start justify-between gap-4">
+          <div>
+            <h3 id="import-dialog-title" className="text-lg font-semibold text-gray-900">
+              {report ? 'Import report' : duplicateMatches ? 'Already in your library' : 'Importing files'}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {report
+                ? `Finished ${new Date(report.finishedAt).toLocaleString()}`
+                : duplicateMatches
+                  ? `${duplicateMatches.length} imported ${duplicateMatches.length === 1 ? 'episode matches one' : 'episodes match ones'} you already have`
+                  : progress?.fileName
+                  ? `${progress.fileName} (${progress.filesProcessed + 1} of ${progress.fileCount})`
+                  : 'Preparing...'}
+            </p>
+          </div>
+          {report && (
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full hover:bg-gray-100 transition-colors"
+              aria-label="Close import report"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          )}
+        </div>
+
+        {!report && duplicateMatches ? (
+          <>
+            <div className="px-6 pt-4 space-y-3">
+              <p className="text-sm text-gray-600">
+                <strong>Skip</strong> keeps your copy, <strong>Replace</strong> swaps in the imported one,
+                and <strong>Merge</strong> keeps your copy but fills in anything it's missing, such as speaker labels or a description.
+              </p>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-600">Apply to all:</span>
+                {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                  <button
+                    key={resolution}
+                    onClick={() => applyToAll(resolution)}
+                    className="px-3 py-1 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                  >
+                    {RESOLUTION_LABELS[resolution]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <ul className="flex-1 overflow-y-auto px-6 py-4 divide-y divide-gray-100">
+              {duplicateMatches.map(({ incoming, existing }) => (
+                <li key={incoming.id} className="py-2 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{existing.title}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {existing.podcastTitle} • imported copy has {incoming.transcript.length} segments
+                    </p>
+                  </div>
+                  <select
+                    value={resolutionFor(incoming.id)}
+                    onChange={(e) => setResolutions(prev => ({ ...prev, [incoming.id]: e.target.value as DuplicateResolution }))}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                      <option key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+              <button
+                onClick={onCancel}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel import
+              </button>
+              <button
+                onClick={() => onResolveDuplicates(Object.fromEntries(
+                  duplicateMatches.map(match => [match.incoming.id, resolutionFor(match.incoming.id)])
+                ))}
+                className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+              >
+                Continue
+              </button>
+            </div>
+          </>
+        ) : !report ? (
+          <>
+            <div className="px-6 pt-4">
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-600 transition-all duration-200"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              {progress?.entryCount !== undefined && progress.entriesProcessed !== undefined && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Archive entry {progress.entriesProcessed + 1} of {progress.entryCount}
+                </p>
+              )}
+            </div>
+
+            <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+              {fileNames.map((fileName, index) => {
+                const isCurrent = progress?.fileName === fileName;
+                const isDone = !isCurrent && completed.has(fileName);
+
+                return (
+                  <li key={`${fileName}-${index}`} className="flex items-center gap-3 text-sm">
+                    {isCurrent ? (
+                      <LoadingSpinner size="sm" />
+                    ) : isDone ? (
+                      <CheckCircle className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <Circle className="w-4 h-4 text-gray-300" />
+                    )}
+                    <span className={`truncate ${isCurrent ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
+                      {fileName}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="p-4 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={onCancel}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel import
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {report.ignoredFiles !== undefined && report.ignoredFiles > 0 && (
+              <p className="mx-6 mt-4 text-sm text-gray-500">
+                {report.ignoredFiles} other {report.ignoredFiles === 1 ? 'file' : 'files'} in the folder didn't look like transcripts and were left out.
+              </p>
+            )}
+
+            {report.cancelled && (
+              <div className="mx-6 mt-4 flex items-center gap-2 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                The import was cancelled. Nothing was added to your library.
+              </div>
+            )}
+
+            <div className="px-6 pt-4 flex flex-wrap gap-2">
+              <button
+                onClick={() => setStatusFilter('all')}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${statusFilter === 'all' ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                All ({report.entries.length})
+              </button>
+              {(Object.keys(STATUS_LABELS) as ImportStatus[]).filter(status => counts[status] > 0).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors ${statusFilter === status ? 'bg-purple-600 text-white' : STATUS_STYLES[status]}`}
+                >
+                  {STATUS_LABELS[status]} ({counts[status]})
+                </button>
+              ))}
+            </div>
+
+            <ul className="flex-1 overflow-y-auto px-6 py-4 divide-y divide-gray-100">
+              {visibleEntries.length === 0 && (
+                <li className="py-6 text-center text-sm text-gray-500">No files to show</li>
+              )}
+              {visibleEntries.map((entry, index) => (
+                <li key={`${entry.fileName}-${index}`} className="py-2 flex items-start gap-3">
+                  <span className="pt-0.5">{STATUS_ICONS[entry.status]}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 break-all">{entry.fileName}</p>
+                    {entry.detail && <p className="text-xs text-gray-500 mt-0.5">{entry.detail}</p>}
+                  </div>
+                  <span className={`flex-shrink-0 px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                    {STATUS_LABELS[entry.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="p-4 border-t border-gray-200 flex flex-wrap justify-end gap-2">
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={report.entries.length === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Export CSV
+              </button>
+              <button
+                onClick={() => handleExport('json')}
+                disabled={report.entries.length === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Export JSON
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
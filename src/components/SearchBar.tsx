@@ -1,22 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { Search, X, Settings } from 'lucide-react';
+import { SearchOptions } from '../types/transcript';
+import { DEFAULT_EDIT_DISTANCE } from '../utils/searchEngine';
 
 interface SearchBarProps {
   onSearch: (query: string, options: SearchOptions) => void;
   placeholder?: string;
+  error?: string;
 }
 
-interface SearchOptions {
-  caseSensitive?: boolean;
-  wholeWords?: boolean;
-}
-
-export function SearchBar({ onSearch, placeholder = "Search transcripts..." }: SearchBarProps) {
+export function SearchBar({ onSearch, placeholder = "Search transcripts...", error }: SearchBarProps) {
   const [query, setQuery] = useState('');
   const [showOptions, setShowOptions] = useState(false);
   const [options, setOptions] = useState<SearchOptions>({
     caseSensitive: false,
-    wholeWords: false
+    wholeWords: false,
+    fuzzy: false,
+    maxEditDistance: DEFAULT_EDIT_DISTANCE,
+    regex: false
   });
 
   useEffect(() => {
@@ -51,13 +52,15 @@ export function SearchBar({ onSearch, placeholder = "Search transcripts..." }: S
           onChange={(e) => setQuery(e.target.value)}
           onKeyDown={handleKeyDown}
           placeholder={placeholder}
-          className="
-            block w-full pl-12 pr-16 py-4 border border-gray-300 
+          aria-invalid={!!error}
+          className={`
+            block w-full pl-12 pr-16 py-4 border
+            ${error ? 'border-red-400' : 'border-gray-300'}
             rounded-xl shadow-sm bg-white 
             text-gray-900 placeholder-gray-500
             focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent
             transition-all duration-200
-          "
+          `}
         />
         
         <div className="absolute inset-y-0 right-0 flex items-center pr-4 space-x-2">
@@ -93,10 +96,11 @@ export function SearchBar({ onSearch, placeholder = "Search transcripts..." }: S
           </h4>
           
           <div className="space-y-3">
-            <label className="flex items-center space-x-3">
+            <label className={`flex items-center space-x-3 ${options.fuzzy ? 'opacity-50' : ''}`}>
               <input
                 type="checkbox"
-                checked={options.caseSensitive}
+                checked={options.caseSensitive && !options.fuzzy}
+                disabled={options.fuzzy}
                 onChange={(e) => setOptions(prev => ({ ...prev, caseSensitive: e.target.checked }))}
                 className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
               />
@@ -116,12 +120,72 @@ export function SearchBar({ onSearch, placeholder = "Search transcripts..." }: S
                 Whole words only
               </span>
             </label>
+
+            <label className={`flex items-center space-x-3 ${options.regex ? 'opacity-50' : ''}`}>
+              <input
+                type="checkbox"
+                checked={options.fuzzy && !options.regex}
+                disabled={options.regex}
+                onChange={(e) => setOptions(prev => ({ ...prev, fuzzy: e.target.checked }))}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-700">
+                Fuzzy matching
+                <span className="block text-xs text-gray-500">
+                  Tolerates typos, ignores accents and matches other word forms
+                </span>
+              </span>
+            </label>
+
+            {options.fuzzy && !options.regex && (
+              <label className="flex items-center justify-between pl-7">
+                <span className="text-sm text-gray-700">Typos allowed per word</span>
+                <select
+                  value={options.maxEditDistance}
+                  onChange={(e) => setOptions(prev => ({ ...prev, maxEditDistance: Number(e.target.value) }))}
+                  className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value={0}>0 (accents and word forms only)</option>
+                  <option value={1}>1</option>
+                  <option value={2}>2</option>
+                </select>
+              </label>
+            )}
+
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={options.regex}
+                onChange={(e) => setOptions(prev => ({ ...prev, regex: e.target.checked }))}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-700">
+                Regular expression
+                <span className="block text-xs text-gray-500">
+                  The whole query is one JavaScript pattern, e.g. <code className="text-purple-700">{'\\$\\d+(\\.\\d{2})?'}</code>; capture groups are highlighted
+                </span>
+              </span>
+            </label>
           </div>
+
+          {!options.regex && (
+            <div className="mt-4 pt-3 border-t border-gray-100 text-xs text-gray-500 space-y-1">
+              <p><code className="text-purple-700">"exact phrase"</code>, <code className="text-purple-700">AND</code>, <code className="text-purple-700">OR</code>, <code className="text-purple-700">NOT</code> or <code className="text-purple-700">-word</code>, and <code className="text-purple-700">( )</code> for grouping</p>
+              <p><code className="text-purple-700">speaker:</code>, <code className="text-purple-700">podcast:</code>, <code className="text-purple-700">episode:</code> and <code className="text-purple-700">date:2023-01..2023-06</code> filters</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Query Error */}
+      {error && (
+        <div className="mt-2 text-sm text-red-600 text-center" role="alert">
+          {error}
         </div>
       )}
 
       {/* Keyboard Shortcuts */}
-      {query && (
+      {query && !error && (
         <div className="mt-2 text-xs text-gray-500 text-center">
           Press <kbd className="px-1 py-0.5 bg-gray-100 rounded">Esc</kbd> to clear search
         </div>
@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Mic, User } from 'lucide-react';
+import { Episode, SearchResult } from '../types/transcript';
+import { SnippetBuilder } from '../utils/snippetBuilder';
+import { SpeakerRoster } from '../utils/speakerRoster';
+
+export type ResultSortOrder = 'relevance' | 'date' | 'episode';
+
+interface SearchResultsPanelProps {
+  episodes: Episode[];
+  results: SearchResult[];
+  query: string;
+  activeEpisodeId?: string;
+  onOpenResult: (result: SearchResult) => void;
+}
+
+interface EpisodeGroup {
+  episode: Episode;
+  hits: SearchResult[];
+  bestScore: number;
+}
+
+interface PodcastGroup {
+  podcastTitle: string;
+  episodes: EpisodeGroup[];
+  bestScore: number;
+  hitCount: number;
+}
+
+// Episodes with more hits than this are collapsed behind a "show all" toggle
+const HITS_PER_EPISODE = 5;
+
+export function SearchResultsPanel({
+  episodes,
+  results,
+  query,
+  activeEpisodeId,
+  onOpenResult
+}: SearchResultsPanelProps) {
+  const [sortOrder, setSortOrder] = useState<ResultSortOrder>('relevance');
+  const [expandedEpisodes, setExpandedEpisodes] = useState<Set<string>>(new Set());
+  const [collapsedPodcasts, setCollapsedPodcasts] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => {
+    const episodesById = new Map(episodes.map(episode => [episode.id, episode]));
+    const byEpisode = new Map<string, EpisodeGroup>();
+
+    results.forEach(result => {
+      const episode = episodesById.get(result.episodeId);
+      if (!episode) return;
+
+      let group = byEpisode.get(episode.id);
+      if (!group) {
+        group = { episode, hits: [], bestScore: 0 };
+        byEpisode.set(episode.id, group);
+      }
+      group.hits.push(result);
+      group.bestScore = Math.max(group.bestScore, result.score || 0);
+    });
+
+    const byPodcast = new Map<string, PodcastGroup>();
+    byEpisode.forEach(group => {
+      const podcastTitle = group.episode.podcastTitle || 'Unknown Podcast';
+      let podcast = byPodcast.get(podcastTitle);
+      if (!podcast) {
+        podcast = { podcastTitle, episodes: [], bestScore: 0, hitCount: 0 };
+        byPodcast.set(podcastTitle, podcast);
+      }
+      podcast.episodes.push(group);
+      podcast.bestScore = Math.max(podcast.bestScore, group.bestScore);
+      podcast.hitCount += group.hits.length;
+    });
+
+    const publishTime = (episode: Episode) => {
+      const time = Date.parse(episode.publishDate);
+      return isNaN(time) ? 0 : time;
+    };
+
+    const podcasts = Array.from(byPodcast.values());
+    podcasts.forEach(podcast => {
+      podcast.episodes.forEach(group => {
+        group.hits.sort((a, b) => sortOrder === 'relevance'
+          ? (b.score || 0) - (a.score || 0) || a.timestamp - b.timestamp
+          : a.timestamp - b.timestamp);
+      });
+
+      podcast.episodes.sort((a, b) => {
+        if (sortOrder === 'relevance') return b.bestScore - a.bestScore;
+        if (sortOrder === 'date') return publishTime(b.episode) - publishTime(a.episode);
+        return a.episode.title.localeCompare(b.episode.title, undefined, { numeric: true });
+      });
+    });
+
+    return podcasts.sort((a, b) => {
+      if (sortOrder === 'relevance') return b.bestScore - a.bestScore;
+      if (sortOrder === 'date') return publishTime(b.episodes[0].episode) - publishTime(a.episodes[0].episode);
+      return a.podcastTitle.localeCompare(b.podcastTitle);
+    });
+  }, [episodes, results, sortOrder]);
+
+  const episodeCount = groups.reduce((total, podcast) => total + podcast.episodes.length, 0);
+
+  const toggleSet = (setter: React.Dispatch<React.SetStateAction<Set<string>>>, key: string) => {
+    setter(previous => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const formatTime = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const renderSnippets = (result: SearchResult) => (
+    SnippetBuilder.build(result.text, result.matchRanges || []).map((snippet, index) => (
+      <p key={index} className="text-sm text-gray-700 leading-relaxed">
+        {snippet.truncatedStart && <span className="text-gray-400">… </span>}
+        {snippet.parts.map((part, partIndex) => part.isMatch ? (
+          <mark key={partIndex} className="bg-yellow-200 px-0.5 rounded">{part.text}</mark>
+        ) : (
+          <React.Fragment key={partIndex}>{part.text}</React.Fragment>
+        ))}
+        {snippet.truncatedEnd && <span className="text-gray-400"> …</span>}
+      </p>
+    ))
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-gray-800">
+          {results.length === 0
+            ? <>No results for "<strong>{query}</strong>"</>
+            : <>{results.length} results in {episodeCount} {episodeCount === 1 ? 'episode' : 'episodes'} for "<strong>{query}</strong>"</>}
+        </p>
+        {results.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Sort by
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as ResultSortOrder)}
+              className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="relevance">Relevance</option>
+              <option value="date">Publish date</option>
+              <option value="episode">Episode title</option>
+            </select>
+          </label>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="max-h-[28rem] overflow-y-auto divide-y divide-gray-100">
+          {groups.map(podcast => {
+            const isCollapsed = collapsedPodcasts.has(podcast.podcastTitle);
+
+            return (
+              <div key={podcast.podcastTitle}>
+                <button
+                  onClick={() => toggleSet(setCollapsedPodcasts, podcast.podcastTitle)}
+                  className="w-full flex items-center gap-2 px-4 py-3 bg-gray-50 hover:bg-gray-100 text-left transition-colors"
+                >
+                  {isCollapsed ? <ChevronRight className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+                  <Mic className="w-4 h-4 text-purple-600" />
+                  <span className="font-semibold text-gray-900">{podcast.podcastTitle}</span>
+                  <span className="text-sm text-gray-500">({podcast.hitCount})</span>
+                </button>
+
+                {!isCollapsed && podcast.episodes.map(({ episode, hits }) => {
+                  const isExpanded = expandedEpisodes.has(episode.id);
+                  const visibleHits = isExpanded ? hits : hits.slice(0, HITS_PER_EPISODE);
+
+                  return (
+                    <div key={episode.id} className="px-4 py-3">
+                      <div className="flex items-baseline justify-between gap-3 mb-2">
+                        <h4 className={`font-medium ${episode.id === activeEpisodeId ? 'text-purple-700' : 'text-gray-900'}`}>
+                          {episode.title}
+                        </h4>
+                        <span className="flex-shrink-0 text-xs text-gray-500">
+                          {new Date(episode.publishDate).toLocaleDateString()} • {hits.length} {hits.length === 1 ? 'hit' : 'hits'}
+                        </span>
+                      </div>
+
+                      <ul className="space-y-1">
+                        {visibleHits.map(result => {
+                          const segment = episode.transcript.find(candidate => candidate.id === result.segmentId);
+
+                          return (
+                            <li key={result.segmentId}>
+                              <button
+                                onClick={() => onOpenResult(result)}
+                                className="w-full flex items-start gap-3 p-2 rounded-lg hover:bg-yellow-50 text-left transition-colors"
+                              >
+                                <span className="flex-shrink-0 text-xs text-gray-500 font-mono pt-0.5">
+                                  {formatTime(result.timestamp)}
+                                </span>
+                                <div className="flex-1 min-w-0 space-y-1">
+                                  {segment?.speaker && (
+                                    <span className="flex items-center gap-1 text-xs font-medium text-gray-600">
+                                      <User className="w-3 h-3" />
+                                      {SpeakerRoster.displayName(episode, segment.speaker)}
+                                    </span>
+                                  )}
+                                  {renderSnippets(result)}
+                                </div>
+                              </button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+
+                      {hits.length > HITS_PER_EPISODE && (
+                        <button
+                          onClick={() => toggleSet(setExpandedEpisodes, episode.id)}
+                          className="mt-1 ml-2 text-sm text-purple-600 hover:text-purple-800"
+                        >
+                          {isExpanded ? 'Show fewer' : `Show all ${hits.length} hits`}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
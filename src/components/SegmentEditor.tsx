@@ -0,0 +1,124 @@
+import React, { useRef, useState } from 'react';
+import { Check, Merge, Scissors, X } from 'lucide-react';
+import { TranscriptSegment } from '../types/transcript';
+import { SegmentChanges, TranscriptEditor } from '../utils/transcriptEditor';
+
+interface SegmentEditorProps {
+  segment: TranscriptSegment;
+  speakers: { label: string; name: string }[];
+  canMergeNext: boolean;
+  formatTime: (seconds: number) => string;
+  onSave: (changes: SegmentChanges) => void;
+  onSplit: (offset: number) => void;
+  onMergeNext: () => void;
+  onCancel: () => void;
+}
+
+export function SegmentEditor({
+  segment,
+  speakers,
+  canMergeNext,
+  formatTime,
+  onSave,
+  onSplit,
+  onMergeNext,
+  onCancel
+}: SegmentEditorProps) {
+  const [text, setText] = useState(segment.text);
+  const [speaker, setSpeaker] = useState(segment.speaker || '');
+  const [time, setTime] = useState(formatTime(segment.timestamp));
+  const textRef = useRef<HTMLTextAreaElement>(null);
+
+  const timestamp = TranscriptEditor.parseTimestamp(time);
+  // Only send the time when it was changed, so seconds lost to formatting stay put
+  const timeChanged = time !== formatTime(segment.timestamp);
+
+  const handleSave = () => {
+    if (timeChanged && timestamp === null) return;
+    onSave({ text, speaker, ...(timeChanged && timestamp !== null ? { timestamp } : {}) });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  const datalistId = `speakers-${segment.id}`;
+
+  return (
+    <div className="space-y-3" onClick={e => e.stopPropagation()} onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={speaker}
+          onChange={e => setSpeaker(e.target.value)}
+          list={datalistId}
+          placeholder="Speaker"
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <datalist id={datalistId}>
+          {speakers.map(option => (
+            <option key={option.label} value={option.label}>{option.name}</option>
+          ))}
+        </datalist>
+        <input
+          value={time}
+          onChange={e => setTime(e.target.value)}
+          title="Start time (h:mm:ss, m:ss or seconds)"
+          className={`w-28 px-3 py-1.5 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 ${
+            timestamp === null ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-purple-500'
+          }`}
+        />
+      </div>
+
+      <textarea
+        ref={textRef}
+        value={text}
+        onChange={e => setText(e.target.value)}
+        rows={3}
+        autoFocus
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 leading-relaxed focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={handleSave}
+          disabled={timeChanged && timestamp === null}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 transition-colors font-medium"
+        >
+          <Check className="w-4 h-4" />
+          Save
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <span className="flex-1" />
+        <button
+          // The textarea keeps its cursor position after losing focus to the button
+          onClick={() => onSplit(textRef.current?.selectionStart ?? 0)}
+          disabled={text !== segment.text}
+          title={text !== segment.text ? 'Save your changes before splitting' : 'Split the segment where the cursor is'}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-gray-700 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+        >
+          <Scissors className="w-4 h-4" />
+          Split at cursor
+        </button>
+        <button
+          onClick={onMergeNext}
+          disabled={!canMergeNext}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-gray-700 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+        >
+          <Merge className="w-4 h-4" />
+          Merge with next
+        </button>
+      </div>
+    </div>
+  );
+}
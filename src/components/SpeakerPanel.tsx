@@ -0,0 +1,144 @@
+import { Save, Undo2, User, Users, X } from 'lucide-react';
+import { Episode, SpeakerProfile } from '../types/transcript';
+import { SpeakerColor, SpeakerEntry, SpeakerRoster, SPEAKER_COLORS } from '../utils/speakerRoster';
+
+// Written out in full so Tailwind keeps the classes
+const COLOR_STYLES: Record<SpeakerColor, { dot: string; text: string }> = {
+  purple: { dot: 'bg-purple-500', text: 'text-purple-700' },
+  blue: { dot: 'bg-blue-500', text: 'text-blue-700' },
+  green: { dot: 'bg-green-500', text: 'text-green-700' },
+  amber: { dot: 'bg-amber-500', text: 'text-amber-700' },
+  pink: { dot: 'bg-pink-500', text: 'text-pink-700' },
+  teal: { dot: 'bg-teal-500', text: 'text-teal-700' },
+  red: { dot: 'bg-red-500', text: 'text-red-700' },
+  indigo: { dot: 'bg-indigo-500', text: 'text-indigo-700' }
+};
+
+const customName = (entry: SpeakerEntry) => entry.name === entry.label ? '' : entry.name;
+
+interface SpeakerBadgeProps {
+  name: string;
+  color: SpeakerColor;
+}
+
+export function SpeakerBadge({ name, color }: SpeakerBadgeProps) {
+  return (
+    <span className={`flex items-center gap-2 text-sm font-medium ${COLOR_STYLES[color].text}`}>
+      <span className={`w-2.5 h-2.5 rounded-full ${COLOR_STYLES[color].dot}`} />
+      {name}
+    </span>
+  );
+}
+
+interface SpeakerPanelProps {
+  episode: Episode;
+  onChange: (speakers: Record<string, SpeakerProfile>) => void;
+  onSaveDefaults: () => void;
+  onClose: () => void;
+}
+
+export function SpeakerPanel({ episode, onChange, onSaveDefaults, onClose }: SpeakerPanelProps) {
+  const entries = SpeakerRoster.entries(episode);
+  const mergeTargets = entries.filter(entry => !entry.mergedInto);
+
+  // An empty name, or the label itself, goes back to showing the label
+  const commitName = (entry: SpeakerEntry, value: string) => {
+    const name = value.trim() === entry.label ? '' : value.trim();
+    if (name !== customName(entry)) onChange(SpeakerRoster.rename(episode, entry.label, name));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Users className="w-5 h-5 text-purple-600" />
+          Speakers ({entries.length})
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-600 text-sm">This transcript has no speaker labels.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {entries.map(entry => (
+            <li key={entry.label} className="py-3 flex flex-col md:flex-row md:items-center gap-3">
+              <div className="flex items-center gap-2 md:w-48 flex-shrink-0">
+                <User className="w-4 h-4 text-gray-400" />
+                <span className="text-sm font-mono text-gray-600 truncate" title={entry.label}>{entry.label}</span>
+                <span className="text-xs text-gray-400">{entry.segmentCount}</span>
+              </div>
+
+              {entry.mergedInto ? (
+                <div className="flex-1 flex items-center gap-3 text-sm text-gray-600">
+                  <span>Shown as</span>
+                  <SpeakerBadge name={entry.name} color={entry.color} />
+                  <button
+                    onClick={() => onChange(SpeakerRoster.unmerge(episode, entry.label))}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-gray-600 hover:bg-gray-100 transition-colors"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    Unmerge
+                  </button>
+                </div>
+              ) : (
+                <div className="flex-1 flex flex-wrap items-center gap-3">
+                  <input
+                    // Remount when the name changes elsewhere, e.g. after a merge
+                    key={entry.name}
+                    defaultValue={customName(entry)}
+                    placeholder="Real name"
+                    onBlur={e => commitName(entry, e.currentTarget.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitName(entry, e.currentTarget.value);
+                    }}
+                    className="flex-1 min-w-[10rem] px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                  <div className="flex items-center gap-1">
+                    {SPEAKER_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => onChange(SpeakerRoster.setColor(episode, entry.label, color))}
+                        title={color}
+                        className={`w-5 h-5 rounded-full ${COLOR_STYLES[color].dot} ${entry.color === color ? 'ring-2 ring-offset-1 ring-gray-700' : ''}`}
+                      />
+                    ))}
+                  </div>
+                  {mergeTargets.length > 1 && (
+                    <select
+                      value=""
+                      onChange={e => e.target.value && onChange(SpeakerRoster.merge(episode, entry.label, e.target.value))}
+                      className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700"
+                    >
+                      <option value="">Merge into…</option>
+                      {mergeTargets.filter(target => target.label !== entry.label).map(target => (
+                        <option key={target.label} value={target.label}>{target.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {entries.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            Save these names and colors to use them for new episodes of {episode.podcastTitle} with the same labels.
+          </p>
+          <button
+            onClick={onSaveDefaults}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors text-sm font-medium flex-shrink-0"
+          >
+            <Save className="w-4 h-4" />
+            Save as podcast defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,44 +1,317 @@
-import React, { useState, useMemo } from 'react';
-import { Episode, SearchResult } from '../types/transcript';
-import { Clock, User, Download, Copy, Search, Settings } from 'lucide-react';
-import { ExportUtils } from '../utils/exportUtils';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Annotation, AnnotationKind, Episode, FindMatch, FindOptions, SearchResult, SpeakerProfile, TranscriptSegment } from '../types/transcript';
+import { Clock, Download, Copy, Search, Settings, Play, Pause, Music, Users, Pencil, Undo2, Redo2, Replace, Bookmark, NotebookPen } from 'lucide-react';
+import { ExportUtils, ExportFormat } from '../utils/exportUtils';
+import { SegmentTiming } from '../utils/segmentTiming';
+import { usePlaybackClock } from '../hooks/usePlaybackClock';
+import { useAudioPlayer } from '../hooks/useAudioPlayer';
+import { AudioPlayer } from './AudioPlayer';
+import { LoadingSpinner } from './LoadingSpinner';
+import { SearchResultsPanel } from './SearchResultsPanel';
+import { SpeakerBadge, SpeakerPanel } from './SpeakerPanel';
+import { SpeakerRoster } from '../utils/speakerRoster';
+import { SegmentEditor } from './SegmentEditor';
+import { SegmentChanges, TranscriptEditor } from '../utils/transcriptEditor';
+import { EditHistory } from '../hooks/useEditHistory';
+import { FindReplacePanel } from './FindReplacePanel';
+import { AnnotationEditor } from './AnnotationEditor';
+import { AnnotationsPanel } from './AnnotationsPanel';
+import { AnnotationEntry, EpisodeAnnotations } from '../utils/episodeAnnotations';
+
+// How far before the selection's rendered position to look for the quote in the segment text
+const QUOTE_SEARCH_SLACK = 20;
+
+// A highlight or bookmark whose note and tags are being written
+interface AnnotationDraft {
+  kind: AnnotationKind;
+  segmentId: string;
+  timestamp: number;
+  start?: number;
+  end?: number;
+}
 
 interface TranscriptViewerProps {
   episodes: Episode[];
   searchResults: SearchResult[];
   onSearch: (query: string) => void;
   searchQuery: string;
+  pendingTranscriptIds: Set<string>;
+  onLoadTranscript: (episodeId: string) => void;
+  getTranscript: (episodeId: string) => Promise<TranscriptSegment[]>;
+  audioFiles: Record<string, File>;
+  onAttachAudio: (episodeId: string, file: File) => void;
+  onDetachAudio: (episodeId: string) => void;
+  onUpdateSpeakers: (episodeId: string, speakers: Record<string, SpeakerProfile>) => void;
+  onSaveSpeakerDefaults: (episode: Episode) => void;
+  onEditTranscript: (episode: Episode, label: string, transcript: TranscriptSegment[]) => void;
+  editHistory: EditHistory;
+  onFind: (pattern: string, options: FindOptions) => Promise<FindMatch[] | null>;
+  onReplace: (matches: FindMatch[], replacement: string, regex: boolean) => Promise<FindMatch[]>;
+  onUpdateAnnotations: (episodeId: string, annotations: Annotation[]) => void;
 }
 
-export function TranscriptViewer({ episodes, searchResults, onSearch, searchQuery }: TranscriptViewerProps) {
-  const [selectedEpisode, setSelectedEpisode] = useState<Episode | null>(null);
+export function TranscriptViewer({
+  episodes,
+  searchResults,
+  onSearch,
+  searchQuery,
+  pendingTranscriptIds,
+  onLoadTranscript,
+  getTranscript,
+  audioFiles,
+  onAttachAudio,
+  onDetachAudio,
+  onUpdateSpeakers,
+  onSaveSpeakerDefaults,
+  onEditTranscript,
+  editHistory,
+  onFind,
+  onReplace,
+  onUpdateAnnotations
+}: TranscriptViewerProps) {
+  const [selectedEpisodeId, setSelectedEpisodeId] = useState<string | null>(null);
   const [showTimestamps, setShowTimestamps] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [annotationDraft, setAnnotationDraft] = useState<AnnotationDraft | null>(null);
   const [exportIncludeTimestamps, setExportIncludeTimestamps] = useState(true);
+  const [exportFlagEdits, setExportFlagEdits] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [subtitleMaxLineLength, setSubtitleMaxLineLength] = useState(42);
+  const [subtitleMaxCueDuration, setSubtitleMaxCueDuration] = useState(7);
+
+  const [focusedHit, setFocusedHit] = useState<{ episodeId: string; segmentId: string; wordIndex?: number } | null>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  // Track the selection by id so it follows the episode when its transcript finishes loading
+  const displayEpisode: Episode | undefined = episodes.find(episode => episode.id === selectedEpisodeId) || episodes[0];
+  const isTranscriptPending = !!displayEpisode && pendingTranscriptIds.has(displayEpisode.id);
+  const audioFile = displayEpisode ? audioFiles[displayEpisode.id] : undefined;
+  const clock = usePlaybackClock(displayEpisode?.duration || 0);
+  const audio = useAudioPlayer(audioFile);
+  // With audio attached the player drives the transcript; otherwise a simulated clock does
+  const playback = audioFile ? audio : clock;
+  const { seek } = playback;
+  const { pause: pauseClock, seek: seekClock } = clock;
+
+  useEffect(() => {
+    if (isTranscriptPending && displayEpisode) {
+      onLoadTranscript(displayEpisode.id);
+    }
+  }, [isTranscriptPending, displayEpisode, onLoadTranscript]);
+
+  const displayEpisodeId = displayEpisode?.id;
+  useEffect(() => {
+    pauseClock();
+    seekClock(0);
+    // Keep a hit that was opened from the results panel - it's what caused the switch
+    setFocusedHit(hit => (hit?.episodeId === displayEpisodeId ? hit : null));
+    setEditingSegmentId(null);
+    setAnnotationDraft(null);
+  }, [displayEpisodeId, pauseClock, seekClock]);
+
+  const activeSegment = useMemo(() => {
+    if (!displayEpisode || (!playback.isPlaying && playback.currentTime === 0)) return undefined;
+    return displayEpisode.transcript.find(segment =>
+      segment.timestamp <= playback.currentTime && playback.currentTime < SegmentTiming.getEndTime(segment)
+    );
+  }, [displayEpisode, playback.isPlaying, playback.currentTime]);
+
+  const activeWordIndex = useMemo(() => {
+    if (!activeSegment?.words) return undefined;
+    const index = activeSegment.words.findIndex(word => word.start <= playback.currentTime && playback.currentTime < word.end);
+    return index === -1 ? undefined : index;
+  }, [activeSegment, playback.currentTime]);
+
+  useEffect(() => {
+    if (!playback.isPlaying || !activeSegment || !transcriptRef.current) return;
+    transcriptRef.current
+      .querySelector(`[data-segment-id="${activeSegment.id}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeSegment, playback.isPlaying]);
+
+  const handleAudioSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && displayEpisode) {
+      onAttachAudio(displayEpisode.id, file);
+    }
+    e.target.value = '';
+  };
+
+  useEffect(() => {
+    // A hit in another episode may have to wait for that transcript to load
+    if (!focusedHit || isTranscriptPending || !transcriptRef.current) return;
+
+    const selector = focusedHit.wordIndex !== undefined
+      ? `[data-word-key="${focusedHit.segmentId}:${focusedHit.wordIndex}"]`
+      : `[data-segment-id="${focusedHit.segmentId}"]`;
+    transcriptRef.current.querySelector(selector)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [focusedHit, isTranscriptPending]);
+
+  const handleJumpToHit = (segment: TranscriptSegment, searchResult: SearchResult) => {
+    seek(searchResult.timestamp);
+    setFocusedHit({ episodeId: searchResult.episodeId, segmentId: segment.id, wordIndex: searchResult.wordIndex });
+  };
+
+  const handleOpenResult = (searchResult: SearchResult) => {
+    if (searchResult.episodeId === displayEpisode?.id) {
+      const segment = displayEpisode.transcript.find(candidate => candidate.id === searchResult.segmentId);
+      if (segment) handleJumpToHit(segment, searchResult);
+      return;
+    }
+
+    setSelectedEpisodeId(searchResult.episodeId);
+    setFocusedHit({ episodeId: searchResult.episodeId, segmentId: searchResult.segmentId, wordIndex: searchResult.wordIndex });
+  };
+
+  const handleOpenMatch = (match: FindMatch) => {
+    setSelectedEpisodeId(match.episodeId);
+    setFocusedHit({ episodeId: match.episodeId, segmentId: match.segmentId });
+  };
+
+  const highlightRanges = useMemo(
+    () => displayEpisode ? EpisodeAnnotations.highlightRanges(displayEpisode) : new Map<string, [number, number][]>(),
+    [displayEpisode]
+  );
+  const bookmarkedSegmentIds = useMemo(
+    () => displayEpisode ? EpisodeAnnotations.bookmarkedSegmentIds(displayEpisode) : new Set<string>(),
+    [displayEpisode]
+  );
+  const knownTags = useMemo(() => EpisodeAnnotations.allTags(episodes), [episodes]);
+
+  // Text selected within one segment becomes a draft highlight
+  const handleTextSelection = () => {
+    const selection = window.getSelection();
+    if (isEditing || !displayEpisode || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    const quote = selection.toString().trim();
+    const range = selection.getRangeAt(0);
+    const textElement = (node: Node) => (node instanceof Element ? node : node.parentElement)?.closest('[data-segment-text]');
+    const element = textElement(range.startContainer);
+    if (!quote || !element || element !== textElement(range.endContainer)) return;
+
+    const segment = displayEpisode.transcript.find(candidate => candidate.id === element.getAttribute('data-segment-text'));
+    if (!segment) return;
 
-  const displayEpisode = selectedEpisode || episodes[0];
+    // The rendered text can differ from the segment's (the word-by-word view), so look for the quote near the selection
+    const before = document.createRange();
+    before.selectNodeContents(element);
+    before.setEnd(range.startContainer, range.startOffset);
+    let start = segment.text.indexOf(quote, Math.max(0, before.toString().length - QUOTE_SEARCH_SLACK));
+    if (start === -1) start = segment.text.indexOf(quote);
+    if (start === -1) return;
+
+    setAnnotationDraft({ kind: 'highlight', segmentId: segment.id, timestamp: segment.timestamp, start, end: start + quote.length });
+  };
+
+  const handleSaveAnnotation = (note: string, tags: string[]) => {
+    const segment = displayEpisode?.transcript.find(candidate => candidate.id === annotationDraft?.segmentId);
+    if (displayEpisode && segment && annotationDraft) {
+      const annotation = annotationDraft.kind === 'highlight'
+        ? EpisodeAnnotations.createHighlight(segment, annotationDraft.start!, annotationDraft.end!, note, tags)
+        : EpisodeAnnotations.createBookmark(segment, annotationDraft.timestamp, note, tags);
+      onUpdateAnnotations(displayEpisode.id, EpisodeAnnotations.add(displayEpisode, annotation));
+    }
+    setAnnotationDraft(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleOpenAnnotation = ({ episode, annotation }: AnnotationEntry) => {
+    const anchor = EpisodeAnnotations.resolve(episode, annotation);
+    if (annotation.kind === 'bookmark' && episode.id === displayEpisode?.id) {
+      seek(annotation.timestamp);
+    }
+    setSelectedEpisodeId(episode.id);
+    setFocusedHit({ episodeId: episode.id, segmentId: anchor?.segment.id ?? annotation.segmentId });
+  };
+
+  const renderHighlights = (segment: TranscriptSegment, ranges: [number, number][]) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    ranges.forEach(([start, end]) => {
+      parts.push(segment.text.slice(position, start));
+      parts.push(<mark key={start} className="bg-amber-200 text-gray-900 rounded-sm">{segment.text.slice(start, end)}</mark>);
+      position = end;
+    });
+    parts.push(segment.text.slice(position));
+
+    return <p data-segment-text={segment.id} className="text-gray-900 leading-relaxed">{parts}</p>;
+  };
+
+  const renderWords = (segment: TranscriptSegment, highlightedWordIndex?: number, hitWordIndex?: number) => (
+    <p data-segment-text={segment.id} className="text-gray-900 leading-relaxed">
+      {segment.words!.map((word, wordIndex) => (
+        <React.Fragment key={wordIndex}>
+          <span
+            data-word-key={`${segment.id}:${wordIndex}`}
+            title={word.confidence !== undefined ? `${Math.round(word.confidence * 100)}% confidence` : undefined}
+            className={`
+              rounded transition-colors duration-100
+              ${wordIndex === highlightedWordIndex ? 'bg-purple-200 text-purple-900' : ''}
+              ${wordIndex === hitWordIndex && wordIndex !== highlightedWordIndex ? 'bg-yellow-200' : ''}
+            `}
+          >
+            {word.text}
+          </span>
+          {' '}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+
+  // Segment ids are only unique within an episode, so look results up per episode
+  const episodeResults = useMemo(() => {
+    const byId = new Map<string, SearchResult>();
+    searchResults.forEach(result => {
+      if (result.episodeId === displayEpisode?.id) byId.set(result.segmentId, result);
+    });
+    return byId;
+  }, [searchResults, displayEpisode?.id]);
 
   const filteredSegments = useMemo(() => {
     if (!displayEpisode) return [];
     
     if (searchQuery && searchResults.length > 0) {
-      const episodeResults = searchResults.filter(result => result.episodeId === displayEpisode.id);
-      return displayEpisode.transcript.filter(segment => 
-        episodeResults.some(result => result.segmentId === segment.id)
-      );
+      return displayEpisode.transcript.filter(segment => episodeResults.has(segment.id));
     }
     
     return displayEpisode.transcript;
-  }, [displayEpisode, searchQuery, searchResults]);
+  }, [displayEpisode, searchQuery, searchResults, episodeResults]);
+
+  const applyEdit = (label: string, transcript: TranscriptSegment[]) => {
+    setEditingSegmentId(null);
+    if (displayEpisode && transcript !== displayEpisode.transcript) {
+      onEditTranscript(displayEpisode, label, transcript);
+    }
+  };
+
+  const handleSaveSegment = (segmentId: string, changes: SegmentChanges) => {
+    if (!displayEpisode) return;
+    applyEdit('Edit segment', TranscriptEditor.updateSegment(displayEpisode.transcript, segmentId, changes));
+  };
+
+  const handleSplitSegment = (segmentId: string, offset: number) => {
+    if (!displayEpisode) return;
+    applyEdit('Split segment', TranscriptEditor.splitSegment(displayEpisode.transcript, segmentId, offset));
+  };
 
-  const handleExport = async (format: 'text' | 'markdown') => {
+  const handleMergeSegment = (segmentId: string) => {
+    if (!displayEpisode) return;
+    applyEdit('Merge segments', TranscriptEditor.mergeWithNext(displayEpisode.transcript, segmentId));
+  };
+
+  const handleExport = async (format: ExportFormat) => {
     if (!displayEpisode) return;
     
-    const content = format === 'markdown' 
-      ? ExportUtils.exportAsMarkdown(displayEpisode, exportIncludeTimestamps)
-      : ExportUtils.exportAsText(displayEpisode, exportIncludeTimestamps);
+    const content = ExportUtils.exportAs(displayEpisode, format, exportIncludeTimestamps, {
+      maxLineLength: subtitleMaxLineLength,
+      maxCueDuration: subtitleMaxCueDuration
+    }, { flagEdits: exportFlagEdits });
     
-    const extension = format === 'markdown' ? 'md' : 'txt';
+    const extension = ExportUtils.getFileExtension(format);
     const filename = `${displayEpisode.title.replace(/[^a-z0-9]/gi, '_')}.${extension}`;
     
     ExportUtils.downloadFile(content, filename, format);
@@ -48,7 +321,7 @@ export function TranscriptViewer({ episodes, searchResults, onSearch, searchQuer
     if (!displayEpisode) return;
     
     try {
-      const content = ExportUtils.exportAsText(displayEpisode, exportIncludeTimestamps);
+      const content = ExportUtils.exportAsText(displayEpisode, exportIncludeTimestamps, { flagEdits: exportFlagEdits });
       await ExportUtils.copyToClipboard(content);
       // You could add a toast notification here
     } catch (error) {
@@ -84,6 +357,17 @@ export function TranscriptViewer({ episodes, searchResults, onSearch, searchQuer
 
   return (
     <div className="max-w-6xl mx-auto space-y-6">
+      {/* Results across all episodes */}
+      {searchQuery && (
+        <SearchResultsPanel
+          episodes={episodes}
+          results={searchResults}
+          query={searchQuery}
+          activeEpisodeId={displayEpisode?.id}
+          onOpenResult={handleOpenResult}
+        />
+      )}
+
       {/* Episode Selection */}
       {episodes.length > 1 && (
         <div className="bg-white rounded-xl shadow-lg p-6">
@@ -94,10 +378,10 @@ export function TranscriptViewer({ episodes, searchResults, onSearch, searchQuer
             {episodes.map(episode => (
               <button
                 key={episode.id}
-                onClick={() => setSelectedEpisode(episode)}
+                onClick={() => setSelectedEpisodeId(episode.id)}
                 className={`
                   text-left p-4 rounded-lg border-2 transition-all duration-200
-                  ${selectedEpisode?.id === episode.id || (!selectedEpisode && episode === episodes[0])
+                  ${displayEpisode?.id === episode.id
                     ? 'border-purple-500 bg-purple-50'
                     : 'border-gray-200 hover:border-purple-300'
                   }
@@ -133,6 +417,27 @@ export function TranscriptViewer({ episodes, searchResults, onSearch, searchQuer
             </div>
             
             <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowSpeakers(!showSpeakers)}
+                title="Speakers"
+                className="p-2 rounded-lg bg-white/20 hover:bg-white/30 transition-colors"
+              >
+                <Users className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowFindReplace(!showFindReplace)}
+                title="Find and replace"
+                className="p-2 rounded-lg bg-white/20 hover:bg-white/30 transition-colors"
+              >
+                <Replace className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowAnnotations(!showAnnotations)}
+                title="Annotations"
+                className="p-2 rounded-lg bg-white/20 hover:bg-white/30 transition-colors"
+              >
+                <NotebookPen className="w-5 h-5" />
+              </button>
               <button
                 onClick={() => setShowSettings(!showSettings)}
                 className="p-2 rounded-lg bg-white/20 hover:bg-white/30 transition-colors"
@@ -176,8 +481,17 @@ export function TranscriptViewer({ episodes, searchResults, onSearch, searchQuer
                   />
                   <span>Include timestamps in exports</span>
                 </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={exportFlagEdits}
+                    onChange={(e) => setExportFlagEdits(e.target.checked)}
+                    className="rounded"
+                  />
+                  <span>Mark edited segments in exports</span>
+                </label>
               </div>
-              <div className="mt-4 flex gap-2">
+              <div className="mt-4 flex flex-wrap gap-2">
                 <button
                   onClick={() => handleExport('text')}
                   className="px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
@@ -190,73 +504,342 @@ export function TranscriptViewer({ episodes, searchResults, onSearch, searchQuer
                 >
                   Export as Markdown
                 </button>
+                <button
+                  onClick={() => handleExport('json')}
+                  className="px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+                >
+                  Export as Podcasting 2.0 JSON
+                </button>
+              </div>
+              <div className="mt-6 pt-4 border-t border-white/20">
+                <h4 className="text-sm font-semibold mb-3">Subtitles</h4>
+                <div className="grid md:grid-cols-2 gap-4">
+                  <label className="flex items-center space-x-2">
+                    <span>Max line length</span>
+                    <input
+                      type="number"
+                      min={10}
+                      max={120}
+                      value={subtitleMaxLineLength}
+                      onChange={(e) => setSubtitleMaxLineLength(Math.max(10, parseInt(e.target.value, 10) || 42))}
+                      className="w-20 px-2 py-1 rounded text-gray-900"
+                    />
+                    <span className="text-sm text-purple-100">characters</span>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span>Max cue duration</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={30}
+                      step={0.5}
+                      value={subtitleMaxCueDuration}
+                      onChange={(e) => setSubtitleMaxCueDuration(Math.max(1, parseFloat(e.target.value) || 7))}
+                      className="w-20 px-2 py-1 rounded text-gray-900"
+                    />
+                    <span className="text-sm text-purple-100">seconds</span>
+                  </label>
+                </div>
+                <div className="mt-4 flex flex-wrap gap-2">
+                  <button
+                    onClick={() => handleExport('srt')}
+                    className="px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+                  >
+                    Export as SRT
+                  </button>
+                  <button
+                    onClick={() => handleExport('vtt')}
+                    className="px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+                  >
+                    Export as WebVTT
+                  </button>
+                  <button
+                    onClick={() => handleExport('ttml')}
+                    className="px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+                  >
+                    Export as TTML
+                  </button>
+                </div>
               </div>
             </div>
           )}
         </div>
       )}
 
+      {showSpeakers && displayEpisode && !isTranscriptPending && (
+        <SpeakerPanel
+          episode={displayEpisode}
+          onChange={speakers => onUpdateSpeakers(displayEpisode.id, speakers)}
+          onSaveDefaults={() => onSaveSpeakerDefaults(displayEpisode)}
+          onClose={() => setShowSpeakers(false)}
+        />
+      )}
+
+      {showFindReplace && displayEpisode && (
+        <FindReplacePanel
+          episodes={episodes}
+          currentEpisode={displayEpisode}
+          onFind={onFind}
+          onReplace={onReplace}
+          onOpenMatch={handleOpenMatch}
+          onUndo={editHistory.undo}
+          formatTime={formatTime}
+          onClose={() => setShowFindReplace(false)}
+        />
+      )}
+
       {/* Search Info */}
-      {searchQuery && (
+      {searchQuery && displayEpisode && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <p className="text-blue-800">
-            Found {searchResults.length} results for "<strong>{searchQuery}</strong>"
-            {filteredSegments.length !== displayEpisode?.transcript.length && 
+            {episodeResults.size} of {searchResults.length} results are in this episode
+            {filteredSegments.length !== displayEpisode.transcript.length && 
               ` (showing ${filteredSegments.length} segments)`
             }
           </p>
         </div>
       )}
 
-      {/* Transcript */}
-      <div className="bg-white rounded-xl shadow-lg">
-        <div className="p-6 border-b border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-900">
-            Transcript
-          </h3>
-        </div>
+      <div className={showAnnotations ? 'grid lg:grid-cols-3 gap-6 items-start' : ''}>
+        {/* Transcript */}
+        <div className="bg-white rounded-xl shadow-lg lg:col-span-2">
+          <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Transcript
+            </h3>
+            <div className="flex items-center gap-3">
+              {activeSegment && !isEditing && (
+                <button
+                  onClick={() => setAnnotationDraft({ kind: 'bookmark', segmentId: activeSegment.id, timestamp: playback.currentTime })}
+                  title="Bookmark the current position"
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-amber-100 text-amber-800 hover:bg-amber-200 transition-colors text-sm font-medium"
+                >
+                  <Bookmark className="w-4 h-4" />
+                  {formatTime(playback.currentTime)}
+                </button>
+              )}
+              {isEditing && (
+                <>
+                  <button
+                    onClick={editHistory.undo}
+                    disabled={!editHistory.undoLabel}
+                    title={editHistory.undoLabel ? `Undo ${editHistory.undoLabel.toLowerCase()}` : 'Nothing to undo'}
+                    className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={editHistory.redo}
+                    disabled={!editHistory.redoLabel}
+                    title={editHistory.redoLabel ? `Redo ${editHistory.redoLabel.toLowerCase()}` : 'Nothing to redo'}
+                    className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => {
+                  setIsEditing(!isEditing);
+                  setEditingSegmentId(null);
+                }}
+                disabled={isTranscriptPending}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium ${
+                  isEditing ? 'bg-purple-600 text-white hover:bg-purple-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <Pencil className="w-4 h-4" />
+                {isEditing ? 'Done editing' : 'Edit'}
+              </button>
+              {!audioFile && (
+                <>
+                  <span className="text-sm text-gray-500 font-mono">
+                    {formatTime(clock.currentTime)} / {formatTime(displayEpisode?.duration || 0)}
+                  </span>
+                  <button
+                    onClick={clock.toggle}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors text-sm font-medium"
+                  >
+                    {clock.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    Follow along
+                  </button>
+                </>
+              )}
+              <label
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors text-sm font-medium cursor-pointer"
+                title={displayEpisode?.audioFileName && !audioFile
+                  ? `Re-attach ${displayEpisode.audioFileName}`
+                  : 'Attach an MP3 or M4A file'}
+              >
+                <Music className="w-4 h-4" />
+                {audioFile ? 'Replace audio' : displayEpisode?.audioFileName ? 'Re-attach audio' : 'Attach audio'}
+                <input
+                  type="file"
+                  accept=".mp3,.m4a,audio/mpeg,audio/mp4"
+                  onChange={handleAudioSelect}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          </div>
         
-        <div className="max-h-96 overflow-y-auto">
-          {filteredSegments.map((segment, index) => {
-            const searchResult = searchResults.find(r => r.segmentId === segment.id);
-            const displayText = searchResult?.highlightedText || segment.text;
+          <div ref={transcriptRef} onMouseUp={handleTextSelection} className="max-h-96 overflow-y-auto">
+            {isTranscriptPending && (
+              <div className="flex items-center justify-center gap-3 p-12 text-gray-500">
+                <LoadingSpinner size="sm" />
+                <span>Loading transcript...</span>
+              </div>
+            )}
+            {filteredSegments.map((segment) => {
+              const searchResult = episodeResults.get(segment.id);
+              const displayText = searchResult?.highlightedText || segment.text;
+              const isActive = activeSegment?.id === segment.id;
+              const hitWordIndex = focusedHit?.segmentId === segment.id ? focusedHit.wordIndex : undefined;
+              const showWords = !!segment.words && (isActive || hitWordIndex !== undefined);
+              const isEditingSegment = isEditing && editingSegmentId === segment.id;
+              const ranges = highlightRanges.get(segment.id);
+              const isBookmarked = bookmarkedSegmentIds.has(segment.id);
             
-            return (
-              <div
-                key={segment.id}
-                className={`
-                  p-6 border-b border-gray-100 last:border-b-0
-                  ${searchResult ? 'bg-yellow-50' : ''}
-                  hover:bg-gray-50 transition-colors
-                `}
-              >
-                <div className="flex items-start space-x-4">
-                  {showTimestamps && (
-                    <div className="flex-shrink-0 text-sm text-gray-500 font-mono">
-                      {formatTime(segment.timestamp)}
-                    </div>
-                  )}
-                  
-                  <div className="flex-1">
-                    {segment.speaker && (
-                      <div className="flex items-center space-x-2 mb-2">
-                        <User className="w-4 h-4 text-gray-400" />
-                        <span className="text-sm font-medium text-gray-700">
-                          {segment.speaker}
-                        </span>
+              return (
+                <div
+                  key={segment.id}
+                  data-segment-id={segment.id}
+                  onClick={isEditing
+                    ? () => setEditingSegmentId(segment.id)
+                    : searchResult ? () => handleJumpToHit(segment, searchResult) : undefined}
+                  className={`
+                    group p-6 border-b border-gray-100 last:border-b-0
+                    ${searchResult ? 'bg-yellow-50 cursor-pointer' : ''}
+                    ${isEditing && !isEditingSegment ? 'cursor-text' : ''}
+                    ${isActive ? 'bg-purple-50' : ''}
+                    hover:bg-gray-50 transition-colors
+                  `}
+                >
+                  <div className="flex items-start space-x-4">
+                    {showTimestamps && (
+                      <div
+                        className="flex-shrink-0 text-sm text-gray-500 font-mono cursor-pointer hover:text-purple-600"
+                        title={`${SegmentTiming.getDuration(segment).toFixed(1)}s`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          seek(segment.timestamp);
+                        }}
+                      >
+                        {formatTime(segment.timestamp)}
+                        {segment.endTime !== undefined && (
+                          <div className="text-xs text-gray-400">
+                            {formatTime(segment.endTime)}
+                          </div>
+                        )}
                       </div>
                     )}
+                  
+                    <div className="flex-1">
+                      {isEditingSegment && displayEpisode ? (
+                        <SegmentEditor
+                          segment={segment}
+                          speakers={SpeakerRoster.entries(displayEpisode).map(({ label, name }) => ({ label, name }))}
+                          canMergeNext={displayEpisode.transcript[displayEpisode.transcript.length - 1]?.id !== segment.id}
+                          formatTime={formatTime}
+                          onSave={changes => handleSaveSegment(segment.id, changes)}
+                          onSplit={offset => handleSplitSegment(segment.id, offset)}
+                          onMergeNext={() => handleMergeSegment(segment.id)}
+                          onCancel={() => setEditingSegmentId(null)}
+                        />
+                      ) : (
+                        <>
+                          {segment.speaker && displayEpisode && (
+                            <div className="mb-2" title={segment.speaker}>
+                              <SpeakerBadge
+                                name={SpeakerRoster.displayName(displayEpisode, segment.speaker)!}
+                                color={SpeakerRoster.color(displayEpisode, segment.speaker)}
+                              />
+                            </div>
+                          )}
                     
-                    <p 
-                      className="text-gray-900 leading-relaxed"
-                      dangerouslySetInnerHTML={{ __html: displayText }}
-                    />
+                          {showWords ? renderWords(segment, isActive ? activeWordIndex : undefined, hitWordIndex) : (
+                            // Search highlighting takes over from annotation highlights while a query is active
+                            ranges && !searchResult ? renderHighlights(segment, ranges) : (
+                              <p 
+                                data-segment-text={segment.id}
+                                className="text-gray-900 leading-relaxed"
+                                dangerouslySetInnerHTML={{ __html: displayText }}
+                              />
+                            )
+                          )}
+                          {segment.edited && (
+                            <span className="inline-flex items-center gap-1 mt-2 text-xs text-gray-400" title="Changed by hand">
+                              <Pencil className="w-3 h-3" />
+                              edited
+                            </span>
+                          )}
+                          {annotationDraft?.segmentId === segment.id && (
+                            <AnnotationEditor
+                              kind={annotationDraft.kind}
+                              quote={annotationDraft.kind === 'highlight' ? segment.text.slice(annotationDraft.start, annotationDraft.end) : undefined}
+                              knownTags={knownTags}
+                              onSave={handleSaveAnnotation}
+                              onCancel={() => setAnnotationDraft(null)}
+                            />
+                          )}
+                        </>
+                      )}
+                    </div>
+
+                    {!isEditing && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setAnnotationDraft({ kind: 'bookmark', segmentId: segment.id, timestamp: segment.timestamp });
+                        }}
+                        title={isBookmarked ? 'Bookmarked - add another bookmark' : 'Bookmark this segment'}
+                        className={`flex-shrink-0 p-1 rounded transition-colors ${
+                          isBookmarked ? 'text-amber-500' : 'text-gray-300 opacity-0 group-hover:opacity-100 hover:text-amber-500'
+                        }`}
+                      >
+                        <Bookmark className={`w-4 h-4 ${isBookmarked ? 'fill-current' : ''}`} />
+                      </button>
+                    )}
                   </div>
                 </div>
-              </div>
-            );
-          })}
+              );
+            })}
+          </div>
+        
+          {audioFile && displayEpisode && (
+            <AudioPlayer
+              audioRef={audio.audioRef}
+              audioUrl={audio.audioUrl}
+              fileName={audioFile.name}
+              currentTime={audio.currentTime}
+              duration={audio.duration || displayEpisode.duration}
+              isPlaying={audio.isPlaying}
+              playbackRate={audio.playbackRate}
+              onToggle={audio.toggle}
+              onSeek={audio.seek}
+              onPlaybackRateChange={audio.setPlaybackRate}
+              onDetach={() => onDetachAudio(displayEpisode.id)}
+            />
+          )}
+          {!audioFile && displayEpisode?.audioFileName && (
+            <p className="px-6 py-3 border-t border-gray-200 flex items-center gap-2 text-sm text-amber-800 bg-amber-50 rounded-b-xl">
+              <Music className="w-4 h-4 flex-shrink-0" />
+              Audio isn't kept between sessions. Re-attach {displayEpisode.audioFileName} to play along with it.
+            </p>
+          )}
         </div>
+
+        {showAnnotations && (
+          <AnnotationsPanel
+            episodes={episodes}
+            activeEpisodeId={displayEpisode?.id}
+            formatTime={formatTime}
+            getTranscript={getTranscript}
+            onOpen={handleOpenAnnotation}
+            onUpdate={onUpdateAnnotations}
+            onClose={() => setShowAnnotations(false)}
+          />
+        )}
       </div>
     </div>
   );
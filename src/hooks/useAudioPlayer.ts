@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export function useAudioPlayer(audioFile?: File) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | undefined>(undefined);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+
+  useEffect(() => {
+    if (!audioFile) {
+      setAudioUrl(undefined);
+      return;
+    }
+
+    const url = URL.createObjectURL(audioFile);
+    setAudioUrl(url);
+    setCurrentTime(0);
+    setIsPlaying(false);
+
+    return () => URL.revokeObjectURL(url);
+  }, [audioFile]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+    const handleDurationChange = () => setDuration(isFinite(audio.duration) ? audio.duration : 0);
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('durationchange', handleDurationChange);
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('ended', handlePause);
+
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('durationchange', handleDurationChange);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('ended', handlePause);
+    };
+  }, [audioUrl]);
+
+  const play = useCallback(() => {
+    audioRef.current?.play().catch(error => {
+      console.error('Audio playback failed:', error);
+    });
+  }, []);
+
+  const pause = useCallback(() => {
+    audioRef.current?.pause();
+  }, []);
+
+  const toggle = useCallback(() => {
+    if (audioRef.current?.paused) {
+      play();
+    } else {
+      pause();
+    }
+  }, [play, pause]);
+
+  const seek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, time);
+    setCurrentTime(audio.currentTime);
+  }, []);
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+    setPlaybackRateState(rate);
+  }, []);
+
+  return {
+    audioRef,
+    audioUrl,
+    currentTime,
+    duration,
+    isPlaying,
+    playbackRate,
+    play,
+    pause,
+    toggle,
+    seek,
+    setPlaybackRate
+  };
+}
@@ -0,0 +1,83 @@
+import { useState, useCallback, useRef } from 'react';
+import { TranscriptSegment } from '../types/transcript';
+
+// Older edits fall off the bottom of the undo stack
+const MAX_HISTORY = 100;
+
+export interface TranscriptChange {
+  episodeId: string;
+  before: TranscriptSegment[];
+  after: TranscriptSegment[];
+}
+
+// One undoable step, which may touch several episodes at once
+export interface EditHistoryEntry {
+  label: string;
+  changes: TranscriptChange[];
+}
+
+export interface TranscriptUpdate {
+  episodeId: string;
+  transcript: TranscriptSegment[];
+}
+
+export interface EditHistory {
+  record: (label: string, changes: TranscriptChange[]) => Promise<void>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  clear: () => void;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+/**
+ * Undo and redo for transcript edits. Each step keeps the transcripts from
+ * before and after it, and `apply` writes whichever side is being restored.
+ */
+export function useEditHistory(apply: (updates: TranscriptUpdate[]) => Promise<void>): EditHistory {
+  const [stacks, setStacks] = useState<{ undo: EditHistoryEntry[]; redo: EditHistoryEntry[] }>({ undo: [], redo: [] });
+  // Read through a ref so a quick second undo doesn't act on the same entry
+  const stacksRef = useRef(stacks);
+
+  const update = useCallback((next: { undo: EditHistoryEntry[]; redo: EditHistoryEntry[] }) => {
+    stacksRef.current = next;
+    setStacks(next);
+  }, []);
+
+  const record = useCallback(async (label: string, changes: TranscriptChange[]) => {
+    const effective = changes.filter(change => change.before !== change.after);
+    if (effective.length === 0) return;
+
+    update({ undo: [...stacksRef.current.undo, { label, changes: effective }].slice(-MAX_HISTORY), redo: [] });
+    await apply(effective.map(change => ({ episodeId: change.episodeId, transcript: change.after })));
+  }, [apply, update]);
+
+  const undo = useCallback(async () => {
+    const { undo: undoStack, redo: redoStack } = stacksRef.current;
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+
+    update({ undo: undoStack.slice(0, -1), redo: [...redoStack, entry] });
+    await apply(entry.changes.map(change => ({ episodeId: change.episodeId, transcript: change.before })));
+  }, [apply, update]);
+
+  const redo = useCallback(async () => {
+    const { undo: undoStack, redo: redoStack } = stacksRef.current;
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+
+    update({ undo: [...undoStack, entry], redo: redoStack.slice(0, -1) });
+    await apply(entry.changes.map(change => ({ episodeId: change.episodeId, transcript: change.after })));
+  }, [apply, update]);
+
+  const clear = useCallback(() => update({ undo: [], redo: [] }), [update]);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    undoLabel: stacks.undo[stacks.undo.length - 1]?.label,
+    redoLabel: stacks.redo[stacks.redo.length - 1]?.label
+  };
+}
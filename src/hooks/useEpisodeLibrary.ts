@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Episode, EpisodeSummary } from '../types/transcript';
+import { EpisodeStore, StorageError } from '../utils/episodeStore';
+
+// The shell keeps the summary's segmentCount, which toSummary recomputes on save
+function toEpisodeShell(summary: EpisodeSummary): Episode {
+  return { ...summary, transcript: [] };
+}
+
+function toStorageError(error: unknown): StorageError {
+  return error instanceof StorageError
+    ? error
+    : new StorageError(error instanceof Error ? error.message : 'Unknown storage error', error);
+}
+
+/**
+ * The episode library. Episodes start out as shells with empty transcripts,
+ * listed in `pendingTranscriptIds`, and their transcripts are only read from
+ * storage when something needs them: opening an episode, searching, or
+ * anything else that calls loadTranscripts or getTranscript.
+ */
+export function useEpisodeLibrary() {
+  const store = useMemo(() => new EpisodeStore(), []);
+  const [episodes, setEpisodes] = useState<Episode[]>([]);
+  const [pendingTranscriptIds, setPendingTranscriptIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<StorageError | null>(null);
+  const [migratedCount, setMigratedCount] = useState(0);
+  const episodesRef = useRef<Episode[]>(episodes);
+  episodesRef.current = episodes;
+  // Kept in step with the state so callbacks see changes before the next render
+  const pendingRef = useRef(pendingTranscriptIds);
+  const inFlight = useRef(new Map<string, Promise<void>>());
+
+  const updatePending = useCallback((update: (pending: Set<string>) => Set<string>) => {
+    pendingRef.current = update(pendingRef.current);
+    setPendingTranscriptIds(pendingRef.current);
+  }, []);
+
+  const markLoaded = useCallback((episodeIds: string[]) => {
+    if (!episodeIds.some(episodeId => pendingRef.current.has(episodeId))) return;
+    updatePending(prev => {
+      const next = new Set(prev);
+      episodeIds.forEach(episodeId => next.delete(episodeId));
+      return next;
+    });
+  }, [updatePending]);
+
+  const applyTranscripts = useCallback((loaded: Map<string, Episode['transcript']>) => {
+    // An episode replaced or edited while its stored transcript was being read keeps the new one
+    const applicable = new Set(Array.from(loaded.keys()).filter(episodeId => pendingRef.current.has(episodeId)));
+    if (applicable.size === 0) return;
+
+    setEpisodes(prev => prev.map(episode =>
+      applicable.has(episode.id) ? { ...episode, transcript: loaded.get(episode.id)! } : episode
+    ));
+    markLoaded(Array.from(applicable));
+  }, [markLoaded]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const migrated = await store.migrateFromLocalStorage();
+        const summaries = await store.getSummaries();
+        if (cancelled) return;
+
+        summaries.sort((a, b) => (a.importedAt || '').localeCompare(b.importedAt || ''));
+        setMigratedCount(migrated);
+        setEpisodes(summaries.map(toEpisodeShell));
+        updatePending(() => new Set(summaries.map(summary => summary.id)));
+        setIsLoading(false);
+      } catch (loadError) {
+        console.error('Error loading episode library:', loadError);
+        if (!cancelled) {
+          setError(toStorageError(loadError));
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [store, updatePending]);
+
+  /**
+   * Reads the transcripts of any of these episodes that haven't loaded, and
+   * resolves once all of them have, including ones an earlier call is reading.
+   */
+  const loadTranscripts = useCallback(async (episodeIds: string[]) => {
+    const toRead = episodeIds.filter(episodeId => pendingRef.current.has(episodeId) && !inFlight.current.has(episodeId));
+
+    if (toRead.length > 0) {
+      const reading = (async () => {
+        const loaded = new Map<string, Episode['transcript']>();
+        for (const episodeId of toRead) {
+          loaded.set(episodeId, await store.getTranscript(episodeId));
+        }
+        applyTranscripts(loaded);
+      })().catch(loadError => {
+        const storageError = toStorageError(loadError);
+        setError(storageError);
+        throw storageError;
+      }).finally(() => {
+        toRead.forEach(episodeId => inFlight.current.delete(episodeId));
+      });
+      toRead.forEach(episodeId => inFlight.current.set(episodeId, reading));
+    }
+
+    await Promise.all(episodeIds.map(episodeId => inFlight.current.get(episodeId)));
+  }, [store, applyTranscripts]);
+
+  const loadTranscript = useCallback((episodeId: string) => {
+    // Failures are already reported through the library error
+    loadTranscripts([episodeId]).catch(() => undefined);
+  }, [loadTranscripts]);
+
+  // Returns the transcript, reading it from storage if it hasn't loaded yet
+  const getTranscript = useCallback(async (episodeId: string) => {
+    const loaded = episodesRef.current.find(episode => episode.id === episodeId);
+    if (loaded && !pendingRef.current.has(episodeId)) return loaded.transcript;
+    return store.getTranscript(episodeId);
+  }, [store]);
+
+  // Episodes whose ID is already in the library replace it in place
+  const addEpisodes = useCallback(async (newEpisodes: Episode[]) => {
+    const importedAt = new Date().toISOString();
+    const stamped = newEpisodes.map(episode => ({ ...episode, importedAt: episode.importedAt || importedAt }));
+    const stampedById = new Map(stamped.map(episode => [episode.id, episode]));
+
+    setEpisodes(prev => {
+      const replaced = prev.map(episode => stampedById.get(episode.id) || episode);
+      const existingIds = new Set(prev.map(episode => episode.id));
+      return [...replaced, ...stamped.filter(episode => !existingIds.has(episode.id))];
+    });
+    markLoaded(stamped.map(episode => episode.id));
+
+    try {
+      await store.putEpisodes(stamped);
+    } catch (saveError) {
+      const storageError = toStorageError(saveError);
+      setError(storageError);
+      throw storageError;
+    }
+  }, [store, markLoaded]);
+
+  const updateEpisode = useCallback(async (episodeId: string, changes: Partial<Omit<Episode, 'id'>>) => {
+    const current = episodesRef.current.find(episode => episode.id === episodeId);
+    if (!current) return;
+
+    const updated = { ...current, ...changes };
+    setEpisodes(prev => prev.map(episode => episode.id === episodeId ? updated : episode));
+    // A transcript set here supersedes the stored one
+    if (changes.transcript) markLoaded([episodeId]);
+
+    try {
+      if (changes.transcript) {
+        await store.putEpisodes([updated]);
+      } else {
+        await store.updateMetadata(episodeId, changes);
+      }
+    } catch (saveError) {
+      const storageError = toStorageError(saveError);
+      setError(storageError);
+      throw storageError;
+    }
+  }, [store, markLoaded]);
+
+  const clearEpisodes = useCallback(async () => {
+    setEpisodes([]);
+    updatePending(() => new Set());
+
+    try {
+      await store.clear();
+    } catch (clearError) {
+      const storageError = toStorageError(clearError);
+      setError(storageError);
+      throw storageError;
+    }
+  }, [store, updatePending]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return {
+    episodes,
+    isLoading,
+    pendingTranscriptIds,
+    error,
+    migratedCount,
+    addEpisodes,
+    updateEpisode,
+    clearEpisodes,
+    loadTranscript,
+    loadTranscripts,
+    getTranscript,
+    dismissError
+  };
+}
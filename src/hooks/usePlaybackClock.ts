@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export function usePlaybackClock(duration: number) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const startedAt = useRef<{ wallClock: number; position: number } | null>(null);
+  // Read when playback starts, so the clock restarts on toggles rather than every tick
+  const currentTimeRef = useRef(currentTime);
+  currentTimeRef.current = currentTime;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    startedAt.current = { wallClock: performance.now(), position: currentTimeRef.current };
+    let frame = 0;
+
+    const tick = () => {
+      if (!startedAt.current) return;
+      const elapsed = (performance.now() - startedAt.current.wallClock) / 1000;
+      const position = startedAt.current.position + elapsed;
+
+      if (duration > 0 && position >= duration) {
+        setCurrentTime(duration);
+        setIsPlaying(false);
+        return;
+      }
+
+      setCurrentTime(position);
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      startedAt.current = null;
+    };
+  }, [isPlaying, duration]);
+
+  const seek = useCallback((time: number) => {
+    const position = Math.max(0, duration > 0 ? Math.min(time, duration) : time);
+    setCurrentTime(position);
+    if (startedAt.current) {
+      startedAt.current = { wallClock: performance.now(), position };
+    }
+  }, [duration]);
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+  const toggle = useCallback(() => setIsPlaying(playing => !playing), []);
+
+  return { currentTime, isPlaying, play, pause, toggle, seek };
+}
@@ -1,30 +1,168 @@
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
 export interface TranscriptSegment {
   id: string;
   text: string;
   timestamp: number;
+  endTime?: number;
   speaker?: string;
   confidence?: number;
+  words?: TranscriptWord[];
+  // Set once the segment has been changed by hand
+  edited?: boolean;
 }
 
 export interface Episode {
   id: string;
+  // Identifier from the source data - an RSS GUID or Apple store ID - when it had one
+  guid?: string;
   title: string;
   podcastTitle: string;
   duration: number;
   publishDate: string;
   description?: string;
+  audioFileName?: string;
+  importedAt?: string;
+  // Set for formats whose version and extra fields are worth keeping for export
+  transcriptFormat?: TranscriptFormatInfo;
+  // Names and colors for the speaker labels in the transcript, keyed by label
+  speakers?: Record<string, SpeakerProfile>;
+  // Highlights and bookmarks, kept with the episode's metadata
+  annotations?: Annotation[];
   transcript: TranscriptSegment[];
 }
 
+// How a speaker label from the source file is shown. Segments keep the original label.
+export interface SpeakerProfile {
+  name?: string;
+  color?: string;
+  // The label this one was merged into, which supplies its name and color
+  mergedInto?: string;
+}
+
+// Names and colors to give speaker labels in new episodes, keyed by podcast and then label
+export type SpeakerDefaults = Record<string, Record<string, Omit<SpeakerProfile, 'mergedInto'>>>;
+
+export type AnnotationKind = 'highlight' | 'bookmark';
+
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  segmentId: string;
+  timestamp: number;
+  // Highlights only: the range in the segment's text, and the text itself so the
+  // range can be found again after the transcript is edited or re-imported
+  start?: number;
+  end?: number;
+  quote?: string;
+  note?: string;
+  tags: string[];
+  createdAt: string;
+}
+
+export interface TranscriptFormatInfo {
+  format: 'podcast-index-json';
+  version?: string;
+  // Top-level fields of the source file the app doesn't otherwise use
+  metadata?: Record<string, unknown>;
+}
+
+export type EpisodeSummary = Omit<Episode, 'transcript'> & {
+  segmentCount: number;
+};
+
 export interface SearchResult {
   segmentId: string;
   episodeId: string;
   text: string;
   timestamp: number;
   highlightedText: string;
+  // Character offsets of each match in text, for building context snippets
+  matchRanges?: [number, number][];
+  wordIndex?: number;
+  score?: number;
+}
+
+export interface SearchOptions {
+  caseSensitive?: boolean;
+  wholeWords?: boolean;
+  fuzzy?: boolean;
+  maxEditDistance?: number;
+  regex?: boolean;
+}
+
+export interface FindOptions {
+  caseSensitive?: boolean;
+  wholeWords?: boolean;
+  regex?: boolean;
+  // Limits the search to these episodes; all episodes when left out
+  episodeIds?: string[];
+}
+
+// One occurrence of a find pattern, with the captures a regex replacement can refer to
+export interface FindMatch {
+  episodeId: string;
+  segmentId: string;
+  timestamp: number;
+  start: number;
+  end: number;
+  text: string;
+  captures: (string | undefined)[];
+  groups?: Record<string, string | undefined>;
+}
+
+export interface AudioAttachment {
+  episodeId: string;
+  file: File;
+}
+
+// Episode metadata read from the Podcasts app's MTLibrary.sqlite
+export interface LibraryEpisodeRecord {
+  title: string;
+  podcastTitle?: string;
+  guid?: string;
+  storeTrackId?: string;
+  publishDate?: string;
+  duration?: number;
+  description?: string;
+  // Cache paths of the episode's TTML transcripts
+  transcriptIdentifiers: string[];
+}
+
+export type ImportStatus = 'imported' | 'replaced' | 'merged' | 'skipped' | 'duplicate' | 'failed';
+
+// What to do with an imported episode that is already in the library
+export type DuplicateResolution = 'skip' | 'replace' | 'merge';
+
+// One line of an import report - a file, or an entry inside a ZIP archive
+export interface ImportReportEntry {
+  fileName: string;
+  status: ImportStatus;
+  detail?: string;
+  // Episodes added from this file
+  episodeIds?: string[];
+  // Episodes the file contained, counting any already seen earlier in the import
+  episodeCount?: number;
+}
+
+export interface ImportReport {
+  startedAt: string;
+  finishedAt: string;
+  cancelled: boolean;
+  entries: ImportReportEntry[];
+  // Files in an imported folder that were left out as unrelated
+  ignoredFiles?: number;
 }
 
 export interface FileProcessingResult {
   episodes: Episode[];
   errors: string[];
+  report: ImportReportEntry[];
+  audioAttachments?: AudioAttachment[];
+  libraryRecords?: LibraryEpisodeRecord[];
 }
\ No newline at end of file
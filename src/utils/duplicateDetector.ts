@@ -0,0 +1,256 @@
+import { DuplicateResolution, Episode, ImportReportEntry, ImportStatus, TranscriptSegment } from '../types/transcript';
+import { EpisodeIdentity } from './episodeIdentity';
+import { FileParser } from './fileParser';
+
+// An imported episode and the library episode it duplicates
+export interface DuplicateMatch {
+  incoming: Episode;
+  existing: Episode;
+}
+
+export interface EpisodeOutcome {
+  status: ImportStatus;
+  detail: string;
+}
+
+export interface ResolvedImport {
+  // Episodes new to the library
+  added: Episode[];
+  // Library episodes rewritten by a replace or merge, under their existing IDs
+  updated: Episode[];
+  // Set for every incoming episode that was a duplicate
+  outcomes: Map<string, EpisodeOutcome>;
+}
+
+/**
+ * Spots imported episodes that are already in the library (or earlier in the
+ * same import), and applies the user's choice of skipping, replacing or merging
+ * them. Episodes match on ID or source GUID, or else on podcast, title and
+ * transcript.
+ */
+export class DuplicateDetector {
+  /**
+   * Returns, for each duplicate incoming episode, the episode it duplicates.
+   * Library episodes whose transcripts haven't loaded are read through
+   * `loadTranscript` when their metadata matches, since placeholder podcast
+   * names and filename titles are shared by unrelated episodes.
+   */
+  static async findDuplicates(
+    incoming: Episode[],
+    existing: Episode[],
+    loadTranscript: (episodeId: string) => Promise<TranscriptSegment[]>
+  ): Promise<Map<string, Episode>> {
+    const duplicates = new Map<string, Episode>();
+    const seen = [...existing];
+    const transcripts = new Map<string, TranscriptSegment[]>();
+
+    const transcriptOf = async (episode: Episode): Promise<TranscriptSegment[]> => {
+      if (episode.transcript.length > 0 || incoming.includes(episode)) return episode.transcript;
+      if (!transcripts.has(episode.id)) transcripts.set(episode.id, await loadTranscript(episode.id));
+      return transcripts.get(episode.id)!;
+    };
+
+    for (const episode of incoming) {
+      let match: Episode | undefined;
+      for (const candidate of seen) {
+        const same = this.sameIdentity(episode, candidate) ??
+          this.sameTranscript(episode.transcript, await transcriptOf(candidate));
+        if (same) {
+          match = candidate;
+          break;
+        }
+      }
+
+      if (match) {
+        duplicates.set(episode.id, match);
+      } else {
+        seen.push(episode);
+      }
+    }
+
+    return duplicates;
+  }
+
+  /**
+   * The duplicates that matched a library episode, as opposed to another file in the same import.
+   */
+  static libraryMatches(incoming: Episode[], duplicates: Map<string, Episode>): DuplicateMatch[] {
+    const batch = new Set(incoming);
+    return incoming
+      .filter(episode => duplicates.has(episode.id) && !batch.has(duplicates.get(episode.id)!))
+      .map(episode => ({ incoming: episode, existing: duplicates.get(episode.id)! }));
+  }
+
+  /**
+   * Applies a resolution to each library duplicate; anything without one is skipped.
+   * Replacing or merging needs the library episode's transcript to be loaded.
+   */
+  static resolve(
+    incoming: Episode[],
+    duplicates: Map<string, Episode>,
+    resolutions: Record<string, DuplicateResolution>
+  ): ResolvedImport {
+    const batch = new Set(incoming);
+    const resolved: ResolvedImport = { added: [], updated: [], outcomes: new Map() };
+
+    incoming.forEach(episode => {
+      const match = duplicates.get(episode.id);
+      if (!match) {
+        resolved.added.push(episode);
+        return;
+      }
+
+      if (batch.has(match)) {
+        resolved.outcomes.set(episode.id, {
+          status: 'duplicate',
+          detail: `Same episode as "${match.title}" earlier in this import`
+        });
+        return;
+      }
+
+      const resolution = resolutions[episode.id] || 'skip';
+      if (resolution === 'skip') {
+        resolved.outcomes.set(episode.id, { status: 'duplicate', detail: `Already in your library as "${match.title}"` });
+        return;
+      }
+
+      const updated = resolution === 'replace'
+        ? {
+          ...episode,
+          id: match.id,
+          importedAt: match.importedAt,
+          audioFileName: episode.audioFileName ?? match.audioFileName,
+          // What the user added in the app outlives the transcript it was made on
+          speakers: match.speakers,
+          annotations: match.annotations
+        }
+        : this.merge(match, episode);
+      const changes = this.describeChanges(match, updated);
+
+      if (changes.length === 0) {
+        resolved.outcomes.set(episode.id, {
+          status: 'duplicate',
+          detail: `Already in your library as "${match.title}", with nothing new to ${resolution}`
+        });
+        return;
+      }
+
+      resolved.updated.push(updated);
+      resolved.outcomes.set(episode.id, resolution === 'replace'
+        ? { status: 'replaced', detail: `Replaced "${match.title}": ${changes.join(', ')}` }
+        : { status: 'merged', detail: `Merged into "${match.title}": ${changes.join(', ')}` });
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Keeps the library episode and fills in whatever it is missing from the
+   * imported copy: metadata, and speaker labels or timings on matching segments.
+   */
+  static merge(existing: Episode, incoming: Episode): Episode {
+    const merged: Episode = { ...existing };
+
+    if (!EpisodeIdentity.hasRealMetadata(existing) && EpisodeIdentity.hasRealMetadata(incoming)) {
+      merged.title = incoming.title;
+      merged.podcastTitle = incoming.podcastTitle;
+      merged.publishDate = incoming.publishDate;
+    }
+    merged.guid = existing.guid || incoming.guid;
+    merged.description = existing.description || incoming.description;
+    merged.duration = existing.duration || incoming.duration;
+    merged.transcriptFormat = existing.transcriptFormat || incoming.transcriptFormat;
+    merged.speakers = existing.speakers || incoming.speakers;
+    merged.annotations = existing.annotations || incoming.annotations;
+
+    if (existing.transcript.length === 0) {
+      merged.transcript = incoming.transcript;
+    } else if (existing.transcript.length === incoming.transcript.length) {
+      merged.transcript = existing.transcript.map((segment, index) => {
+        const other = incoming.transcript[index];
+        return {
+          ...segment,
+          speaker: segment.speaker || other.speaker,
+          endTime: segment.endTime ?? other.endTime,
+          words: segment.words && segment.words.length > 0 ? segment.words : other.words
+        };
+      });
+    }
+
+    return merged;
+  }
+
+  /**
+   * Human-readable list of what differs between two versions of an episode.
+   */
+  static describeChanges(before: Episode, after: Episode): string[] {
+    const changes: string[] = [];
+    if (before.title !== after.title) changes.push('title');
+    if (before.podcastTitle !== after.podcastTitle) changes.push('podcast');
+    if (before.publishDate !== after.publishDate) changes.push('publish date');
+    if ((before.description || '') !== (after.description || '')) changes.push('description');
+
+    const a = before.transcript;
+    const b = after.transcript;
+    if (a.length !== b.length) {
+      changes.push(`transcript (${a.length} → ${b.length} segments)`);
+      return changes;
+    }
+
+    if (a.some((segment, index) => segment.text !== b[index].text)) changes.push('transcript text');
+    if (a.some((segment, index) => (segment.speaker || '') !== (b[index].speaker || ''))) changes.push('speaker labels');
+    if (a.some((segment, index) => segment.timestamp !== b[index].timestamp || segment.endTime !== b[index].endTime)) {
+      changes.push('segment timings');
+    }
+    if (a.some((segment, index) => (segment.words?.length || 0) !== (b[index].words?.length || 0))) {
+      changes.push('word timings');
+    }
+
+    return changes;
+  }
+
+  /**
+   * Rewrites report entries for files whose episodes were duplicates, replaced
+   * or merged. A file with a mix of outcomes stays "imported" and lists them.
+   */
+  static annotateReport(entries: ImportReportEntry[], outcomes: Map<string, EpisodeOutcome>): ImportReportEntry[] {
+    return entries.map(entry => {
+      const episodeIds = entry.episodeIds || [];
+      if (entry.status !== 'imported' || FileParser.isAudioFile(entry.fileName) || episodeIds.length === 0) {
+        return entry;
+      }
+
+      const fileOutcomes = episodeIds.map(episodeId => outcomes.get(episodeId)).filter(Boolean) as EpisodeOutcome[];
+      if (fileOutcomes.length === 0) return entry;
+
+      const newCount = episodeIds.length - fileOutcomes.length;
+      const details = fileOutcomes.map(outcome => outcome.detail);
+      if (newCount > 0) details.unshift(`${newCount} new`);
+
+      const statuses = new Set(fileOutcomes.map(outcome => outcome.status));
+      const status = newCount === 0 && statuses.size === 1 ? fileOutcomes[0].status : 'imported';
+      return { ...entry, status, detail: details.join('; ') };
+    });
+  }
+
+  /**
+   * Decides from IDs and metadata alone where it can: true or false, or
+   * undefined when the titles match and the transcripts have to settle it.
+   */
+  private static sameIdentity(a: Episode, b: Episode): boolean | undefined {
+    if (a.id === b.id) return true;
+    if (a.guid && b.guid) return a.guid === b.guid;
+
+    if (EpisodeIdentity.normalize(a.title) !== EpisodeIdentity.normalize(b.title)) return false;
+    if (EpisodeIdentity.normalize(a.podcastTitle) !== EpisodeIdentity.normalize(b.podcastTitle)) return false;
+    return undefined;
+  }
+
+  private static sameTranscript(a: TranscriptSegment[], b: TranscriptSegment[]): boolean {
+    if (a.length === 0 || b.length === 0) return a.length === b.length;
+
+    return a.length === b.length &&
+      a[0].text === b[0].text &&
+      a[a.length - 1].text === b[b.length - 1].text;
+  }
+}
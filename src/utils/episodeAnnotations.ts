@@ -0,0 +1,202 @@
+import { Annotation, Episode, TranscriptSegment } from '../types/transcript';
+import { SegmentTiming } from './segmentTiming';
+import { EpisodeIdentity } from './episodeIdentity';
+
+// Where an annotation currently sits in its episode's transcript
+export interface AnnotationAnchor {
+  segment: TranscriptSegment;
+  start?: number;
+  end?: number;
+}
+
+export interface AnnotationEntry {
+  episode: Episode;
+  annotation: Annotation;
+}
+
+export interface AnnotationFilters {
+  tag?: string;
+  // Podcast title; matched the way duplicate detection matches titles
+  podcast?: string;
+  // Days the annotation was made on or after, and on or before, as YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Highlights and bookmarks on an episode's transcript. Changes return a new
+ * annotation list for the episode, like SpeakerRoster does for speakers.
+ * Highlights keep their quoted text, so they're found again when segment IDs
+ * or offsets change through editing or a re-import.
+ */
+export class EpisodeAnnotations {
+  static createHighlight(segment: TranscriptSegment, start: number, end: number, note: string, tags: string[]): Annotation {
+    return {
+      id: this.newId(),
+      kind: 'highlight',
+      segmentId: segment.id,
+      timestamp: segment.timestamp,
+      start,
+      end,
+      quote: segment.text.slice(start, end),
+      note: note.trim() || undefined,
+      tags,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  static createBookmark(segment: TranscriptSegment, timestamp: number, note: string, tags: string[]): Annotation {
+    return {
+      id: this.newId(),
+      kind: 'bookmark',
+      segmentId: segment.id,
+      timestamp,
+      note: note.trim() || undefined,
+      tags,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  static add(episode: Episode, annotation: Annotation): Annotation[] {
+    return [...(episode.annotations || []), annotation];
+  }
+
+  static update(episode: Episode, annotationId: string, changes: { note?: string; tags?: string[] }): Annotation[] {
+    return (episode.annotations || []).map(annotation => annotation.id === annotationId
+      ? {
+        ...annotation,
+        ...(changes.note !== undefined ? { note: changes.note.trim() || undefined } : {}),
+        ...(changes.tags !== undefined ? { tags: changes.tags } : {})
+      }
+      : annotation);
+  }
+
+  static remove(episode: Episode, annotationId: string): Annotation[] {
+    return (episode.annotations || []).filter(annotation => annotation.id !== annotationId);
+  }
+
+  /**
+   * Finds where an annotation belongs in the transcript as it is now. A
+   * highlight whose quote can't be found anywhere returns null; a bookmark
+   * falls back to the segment playing at its time.
+   */
+  static resolve(episode: Episode, annotation: Annotation): AnnotationAnchor | null {
+    const segments = episode.transcript;
+    const original = segments.find(segment => segment.id === annotation.segmentId);
+
+    if (annotation.kind === 'bookmark') {
+      const segment = original || segments.find(candidate =>
+        candidate.timestamp <= annotation.timestamp && annotation.timestamp < SegmentTiming.getEndTime(candidate)
+      );
+      return segment ? { segment } : null;
+    }
+
+    const quote = annotation.quote;
+    if (!quote) return null;
+    if (original && original.text.slice(annotation.start, annotation.end) === quote) {
+      return { segment: original, start: annotation.start, end: annotation.end };
+    }
+
+    // Prefer the original segment, then the segment nearest the original time
+    const candidates = [
+      ...(original ? [original] : []),
+      ...segments
+        .filter(segment => segment !== original)
+        .sort((a, b) => Math.abs(a.timestamp - annotation.timestamp) - Math.abs(b.timestamp - annotation.timestamp))
+    ];
+    for (const segment of candidates) {
+      const start = segment.text.indexOf(quote);
+      if (start !== -1) return { segment, start, end: start + quote.length };
+    }
+    return null;
+  }
+
+  /**
+   * The highlighted ranges in each segment, keyed by segment ID, in order and
+   * without overlaps, for rendering.
+   */
+  static highlightRanges(episode: Episode): Map<string, [number, number][]> {
+    const bySegment = new Map<string, [number, number][]>();
+    (episode.annotations || []).forEach(annotation => {
+      if (annotation.kind !== 'highlight') return;
+      const anchor = this.resolve(episode, annotation);
+      if (!anchor || anchor.start === undefined || anchor.end === undefined) return;
+      bySegment.set(anchor.segment.id, [...(bySegment.get(anchor.segment.id) || []), [anchor.start, anchor.end]]);
+    });
+
+    bySegment.forEach((ranges, segmentId) => {
+      const merged: [number, number][] = [];
+      ranges.sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+          last[1] = Math.max(last[1], end);
+        } else {
+          merged.push([start, end]);
+        }
+      });
+      bySegment.set(segmentId, merged);
+    });
+    return bySegment;
+  }
+
+  static bookmarkedSegmentIds(episode: Episode): Set<string> {
+    const segmentIds = new Set<string>();
+    (episode.annotations || []).forEach(annotation => {
+      if (annotation.kind !== 'bookmark') return;
+      const anchor = this.resolve(episode, annotation);
+      if (anchor) segmentIds.add(anchor.segment.id);
+    });
+    return segmentIds;
+  }
+
+  /**
+   * Every annotation in the library, episode by episode in library order and by
+   * time within each episode.
+   */
+  static collect(episodes: Episode[]): AnnotationEntry[] {
+    return episodes.flatMap(episode => [...(episode.annotations || [])]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(annotation => ({ episode, annotation })));
+  }
+
+  static filter(entries: AnnotationEntry[], filters: AnnotationFilters): AnnotationEntry[] {
+    const podcast = filters.podcast ? EpisodeIdentity.normalize(filters.podcast) : undefined;
+    return entries.filter(({ episode, annotation }) => {
+      const day = this.localDay(annotation.createdAt);
+      return (!filters.tag || annotation.tags.includes(filters.tag)) &&
+        (!podcast || EpisodeIdentity.normalize(episode.podcastTitle) === podcast) &&
+        (!filters.from || day >= filters.from) &&
+        (!filters.to || day <= filters.to);
+    });
+  }
+
+  static allTags(episodes: Episode[]): string[] {
+    const tags = new Set<string>();
+    episodes.forEach(episode => episode.annotations?.forEach(annotation => annotation.tags.forEach(tag => tags.add(tag))));
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Reads tags typed as "interview, #ai  ethics": split on commas, with any
+   * leading "#" dropped and repeats removed regardless of case.
+   */
+  static parseTags(input: string): string[] {
+    const tags = new Map<string, string>();
+    input.split(',').forEach(part => {
+      const tag = part.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+      if (tag && !tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    });
+    return Array.from(tags.values());
+  }
+
+  // Date inputs give local days, so compare against the local day the annotation was made
+  private static localDay(isoDate: string): string {
+    const date = new Date(isoDate);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private static newId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
@@ -0,0 +1,49 @@
+import { Episode } from '../types/transcript';
+
+// Podcast titles the parsers fall back to when a file carries no metadata
+const PLACEHOLDER_PODCAST_TITLES = new Set(['imported podcast', 'unknown podcast']);
+
+/**
+ * Derives episode IDs from content, so importing the same file twice yields the
+ * same ID. The source GUID wins, then podcast + title when the file named its
+ * podcast, then a hash of the transcript text.
+ */
+export class EpisodeIdentity {
+  static createId(episode: Omit<Episode, 'id'>): string {
+    if (episode.guid) {
+      return `episode-guid-${this.hash(episode.guid.trim())}`;
+    }
+
+    if (this.hasRealMetadata(episode)) {
+      return `episode-meta-${this.hash(`${this.normalize(episode.podcastTitle)}\n${this.normalize(episode.title)}`)}`;
+    }
+
+    return `episode-text-${this.hash(episode.transcript.map(segment => segment.text).join('\n'))}`;
+  }
+
+  static hasRealMetadata(episode: Pick<Episode, 'podcastTitle' | 'title'>): boolean {
+    return Boolean(episode.title.trim()) &&
+      !PLACEHOLDER_PODCAST_TITLES.has(this.normalize(episode.podcastTitle));
+  }
+
+  static normalize(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * 53-bit string hash (cyrb53). Not cryptographic, but collisions between a
+   * library's worth of episodes are vanishingly unlikely.
+   */
+  private static hash(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charCodeAt(i);
+      h1 = Math.imul(h1 ^ char, 2654435761);
+      h2 = Math.imul(h2 ^ char, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  }
+}
@@ -0,0 +1,200 @@
+import { Episode, EpisodeSummary, TranscriptSegment } from '../types/transcript';
+
+const DATABASE_NAME = 'podtranscript';
+const DATABASE_VERSION = 1;
+const EPISODES_STORE = 'episodes';
+const TRANSCRIPTS_STORE = 'transcripts';
+
+export const LEGACY_STORAGE_KEY = 'podtranscript-episodes';
+
+interface TranscriptRecord {
+  episodeId: string;
+  segments: TranscriptSegment[];
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export class StorageQuotaError extends StorageError {
+  constructor(cause?: unknown) {
+    super('Browser storage is full. Remove some episodes or free up disk space, then try again.', cause);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * Persists the episode library in IndexedDB. Episode metadata and transcript
+ * bodies live in separate object stores so the library list can be shown
+ * without reading every transcript.
+ */
+export class EpisodeStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getSummaries(): Promise<EpisodeSummary[]> {
+    const db = await this.open();
+    return this.request<EpisodeSummary[]>(
+      db.transaction(EPISODES_STORE, 'readonly').objectStore(EPISODES_STORE).getAll()
+    );
+  }
+
+  async getTranscript(episodeId: string): Promise<TranscriptSegment[]> {
+    const db = await this.open();
+    const record = await this.request<TranscriptRecord | undefined>(
+      db.transaction(TRANSCRIPTS_STORE, 'readonly').objectStore(TRANSCRIPTS_STORE).get(episodeId)
+    );
+    return record?.segments ?? [];
+  }
+
+  async putEpisodes(episodes: Episode[]): Promise<void> {
+    if (episodes.length === 0) return;
+
+    const db = await this.open();
+    const transaction = db.transaction([EPISODES_STORE, TRANSCRIPTS_STORE], 'readwrite');
+    const episodeStore = transaction.objectStore(EPISODES_STORE);
+    const transcriptStore = transaction.objectStore(TRANSCRIPTS_STORE);
+
+    episodes.forEach(episode => {
+      episodeStore.put(EpisodeStore.toSummary(episode));
+      transcriptStore.put({ episodeId: episode.id, segments: episode.transcript } satisfies TranscriptRecord);
+    });
+
+    await this.complete(transaction);
+  }
+
+  async updateMetadata(episodeId: string, changes: Partial<Omit<EpisodeSummary, 'id' | 'segmentCount'>>): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(EPISODES_STORE, 'readwrite');
+    const store = transaction.objectStore(EPISODES_STORE);
+
+    // Merge inside the transaction so fields we weren't given (like segmentCount) are kept
+    const request = store.get(episodeId);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, ...changes });
+      }
+    };
+
+    await this.complete(transaction);
+  }
+
+  async deleteEpisode(episodeId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([EPISODES_STORE, TRANSCRIPTS_STORE], 'readwrite');
+    transaction.objectStore(EPISODES_STORE).delete(episodeId);
+    transaction.objectStore(TRANSCRIPTS_STORE).delete(episodeId);
+    await this.complete(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([EPISODES_STORE, TRANSCRIPTS_STORE], 'readwrite');
+    transaction.objectStore(EPISODES_STORE).clear();
+    transaction.objectStore(TRANSCRIPTS_STORE).clear();
+    await this.complete(transaction);
+  }
+
+  /**
+   * Moves episodes saved by the old localStorage-backed library into IndexedDB.
+   * The legacy key is only removed once the copy has been committed, so a failed
+   * migration is retried on the next load.
+   */
+  async migrateFromLocalStorage(): Promise<number> {
+    let raw: string | null = null;
+    try {
+      raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+    } catch (error) {
+      console.error(`Error reading localStorage key "${LEGACY_STORAGE_KEY}":`, error);
+    }
+    if (!raw) return 0;
+
+    let episodes: Episode[];
+    try {
+      const parsed = JSON.parse(raw);
+      // Stamp import times a millisecond apart so the old library order survives
+      const base = Date.now();
+      episodes = (Array.isArray(parsed) ? parsed : []).map((episode: Episode, index: number) => ({
+        ...episode,
+        importedAt: episode.importedAt || new Date(base + index).toISOString()
+      }));
+    } catch (error) {
+      console.error('Discarding unreadable legacy episode library:', error);
+      window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return 0;
+    }
+
+    await this.putEpisodes(episodes);
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`Migrated ${episodes.length} episodes from localStorage to IndexedDB`);
+    return episodes.length;
+  }
+
+  static toSummary(episode: Episode): EpisodeSummary {
+    const { transcript, ...metadata } = episode;
+    return { ...metadata, segmentCount: transcript.length };
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!EpisodeStore.isSupported()) {
+          reject(new StorageError('This browser does not support IndexedDB, so the library cannot be saved.'));
+          return;
+        }
+
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(EPISODES_STORE)) {
+            db.createObjectStore(EPISODES_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(TRANSCRIPTS_STORE)) {
+            db.createObjectStore(TRANSCRIPTS_STORE, { keyPath: 'episodeId' });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(this.toStorageError(request.error, 'open the episode library'));
+        request.onblocked = () => reject(new StorageError('The episode library is open in another tab with an older version. Close other tabs and reload.'));
+      });
+
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(this.toStorageError(request.error, 'read the episode library'));
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      // Quota failures surface as an aborted transaction rather than a request error
+      transaction.onabort = () => reject(this.toStorageError(transaction.error, 'save the episode library'));
+      transaction.onerror = () => reject(this.toStorageError(transaction.error, 'save the episode library'));
+    });
+  }
+
+  private toStorageError(error: DOMException | null, action: string): StorageError {
+    if (error?.name === 'QuotaExceededError') {
+      return new StorageQuotaError(error);
+    }
+    return new StorageError(`Could not ${action}: ${error?.message || 'Unknown error'}`, error);
+  }
+}
@@ -1,7 +1,85 @@
-import { Episode } from '../types/transcript';
+import { Annotation, Episode, ImportReport } from '../types/transcript';
+import { SegmentTiming } from './segmentTiming';
+import { SpeakerRoster } from './speakerRoster';
+import { AnnotationFilters, EpisodeAnnotations } from './episodeAnnotations';
+
+export type ExportFormat = 'text' | 'markdown' | 'srt' | 'vtt' | 'ttml' | 'json';
+
+// Downloads that aren't transcript exports, like the import report
+export type DownloadType = ExportFormat | 'csv' | 'json' | 'html';
+
+export type NotebookFormat = 'markdown' | 'html' | 'json';
+
+export interface ExportOptions {
+  // Mark segments that were changed by hand
+  flagEdits?: boolean;
+}
+
+export interface SubtitleExportOptions extends ExportOptions {
+  maxLineLength?: number;
+  maxCueDuration?: number;
+  includeSpeakers?: boolean;
+}
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
+  firstOfSegment: boolean;
+  edited: boolean;
+}
+
+// An annotation with what it needs to stand on its own in a notebook
+interface NotebookQuote {
+  episode: Episode;
+  annotation: Annotation;
+  timestamp: number;
+  speaker?: string;
+}
+
+const MIME_TYPES: Record<DownloadType, string> = {
+  text: 'text/plain',
+  markdown: 'text/markdown',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ttml: 'application/ttml+xml',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html'
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  text: 'txt',
+  markdown: 'md',
+  srt: 'srt',
+  vtt: 'vtt',
+  ttml: 'ttml',
+  json: 'json'
+};
+
+const NOTEBOOK_EXTENSIONS: Record<NotebookFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json'
+};
+
+// The Podcasting 2.0 JSON transcript version written when the source didn't name one
+const PODCAST_INDEX_JSON_VERSION = '1.0.0';
+
+const DEFAULT_SUBTITLE_OPTIONS: Required<SubtitleExportOptions> = {
+  maxLineLength: 42,
+  maxCueDuration: 7,
+  includeSpeakers: true,
+  flagEdits: false
+};
+
+// Subtitle players expect at most two lines on screen at once
+const MAX_LINES_PER_CUE = 2;
 
 export class ExportUtils {
-  static exportAsText(episode: Episode, includeTimestamps: boolean = true): string {
+  static exportAsText(source: Episode, includeTimestamps: boolean = true, options: ExportOptions = {}): string {
+    const episode = SpeakerRoster.applyNames(source);
     let content = `${episode.title}\n`;
     content += `Podcast: ${episode.podcastTitle}\n`;
     content += `Published: ${new Date(episode.publishDate).toLocaleDateString()}\n`;
@@ -22,13 +100,14 @@ export class ExportUtils {
         content += `${segment.speaker}: `;
       }
       
-      content += `${segment.text}\n\n`;
+      content += `${segment.text}${options.flagEdits && segment.edited ? ' (edited)' : ''}\n\n`;
     });
     
     return content;
   }
 
-  static exportAsMarkdown(episode: Episode, includeTimestamps: boolean = true): string {
+  static exportAsMarkdown(source: Episode, includeTimestamps: boolean = true, options: ExportOptions = {}): string {
+    const episode = SpeakerRoster.applyNames(source);
     let content = `# ${episode.title}\n\n`;
     content += `**Podcast:** ${episode.podcastTitle}  \n`;
     content += `**Published:** ${new Date(episode.publishDate).toLocaleDateString()}  \n`;
@@ -40,7 +119,7 @@ export class ExportUtils {
     
     content += '## Transcript\n\n';
     
-    episode.transcript.forEach((segment, index) => {
+    episode.transcript.forEach(segment => {
       if (includeTimestamps) {
         content += `**[${this.formatTime(segment.timestamp)}]** `;
       }
@@ -49,14 +128,176 @@ export class ExportUtils {
         content += `**${segment.speaker}:** `;
       }
       
-      content += `${segment.text}\n\n`;
+      content += `${segment.text}${options.flagEdits && segment.edited ? ' *(edited)*' : ''}\n\n`;
     });
     
     return content;
   }
 
-  static downloadFile(content: string, filename: string, type: 'text' | 'markdown' = 'text'): void {
-    const mimeType = type === 'markdown' ? 'text/markdown' : 'text/plain';
+  static exportAsSrt(episode: Episode, options: SubtitleExportOptions = {}): string {
+    const settings = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+    const cues = this.buildSubtitleCues(episode, settings);
+
+    return cues.map((cue, index) => {
+      const lines = [...cue.lines];
+      if (settings.includeSpeakers && cue.speaker && cue.firstOfSegment) {
+        lines[0] = `${cue.speaker}: ${lines[0]}`;
+      }
+      if (settings.flagEdits && cue.edited && cue.firstOfSegment) {
+        lines[lines.length - 1] += ' [edited]';
+      }
+
+      return `${index + 1}\n` +
+             `${this.formatSubtitleTime(cue.start, ',')} --> ${this.formatSubtitleTime(cue.end, ',')}\n` +
+             `${lines.join('\n')}\n`;
+    }).join('\n');
+  }
+
+  static exportAsWebVtt(episode: Episode, options: SubtitleExportOptions = {}): string {
+    const settings = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+    const cues = this.buildSubtitleCues(episode, settings);
+
+    let content = 'WEBVTT\n\n';
+    const note = [episode.title, episode.podcastTitle].map(line => this.vttNoteLine(line)).filter(Boolean);
+    content += `NOTE\n${note.map(line => `${line}\n`).join('')}\n`;
+
+    cues.forEach(cue => {
+      const text = cue.lines.map(line => this.escapeVtt(line)).join('\n');
+      const voice = settings.includeSpeakers && cue.speaker ? `<v ${this.escapeVtt(cue.speaker)}>` : '';
+
+      if (settings.flagEdits && cue.edited && cue.firstOfSegment) {
+        content += 'NOTE edited\n\n';
+      }
+      content += `${this.formatSubtitleTime(cue.start, '.')} --> ${this.formatSubtitleTime(cue.end, '.')}\n`;
+      content += `${voice}${text}\n\n`;
+    });
+
+    return content;
+  }
+
+  static exportAsTtml(episode: Episode, options: SubtitleExportOptions = {}): string {
+    const settings = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+    const cues = this.buildSubtitleCues(episode, settings);
+
+    const speakers = Array.from(new Set(cues.map(cue => cue.speaker).filter((speaker): speaker is string => !!speaker)));
+    const agentIds = new Map(speakers.map((speaker, index) => [speaker, `speaker-${index + 1}`]));
+
+    let content = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    content += '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xml:lang="en">\n';
+    content += '  <head>\n    <metadata>\n';
+    content += `      <ttm:title>${this.escapeXml(episode.title)}</ttm:title>\n`;
+
+    if (settings.includeSpeakers) {
+      speakers.forEach(speaker => {
+        content += `      <ttm:agent type="person" xml:id="${agentIds.get(speaker)}">` +
+                   `<ttm:name>${this.escapeXml(speaker)}</ttm:name></ttm:agent>\n`;
+      });
+    }
+
+    content += '    </metadata>\n  </head>\n';
+    content += `  <body dur="${this.formatSubtitleTime(episode.duration, '.')}">\n    <div>\n`;
+
+    cues.forEach(cue => {
+      const agent = settings.includeSpeakers && cue.speaker ? ` ttm:agent="${agentIds.get(cue.speaker)}"` : '';
+      const role = settings.flagEdits && cue.edited ? ' ttm:role="x-edited"' : '';
+      const text = cue.lines.map(line => this.escapeXml(line)).join('<br/>');
+
+      content += `      <p begin="${this.formatSubtitleTime(cue.start, '.')}" end="${this.formatSubtitleTime(cue.end, '.')}"${agent}${role}>${text}</p>\n`;
+    });
+
+    content += '    </div>\n  </body>\n</tt>\n';
+    return content;
+  }
+
+  /**
+   * Writes the Podcasting 2.0 JSON transcript format, one segment per transcript
+   * segment. An episode imported from this format keeps its version and extra fields.
+   */
+  static exportAsPodcastIndexJson(episode: Episode, options: ExportOptions = {}): string {
+    const source = episode.transcriptFormat?.format === 'podcast-index-json' ? episode.transcriptFormat : undefined;
+    const named = SpeakerRoster.applyNames(episode);
+    const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+    const segments = named.transcript.map(segment => ({
+      ...(segment.speaker ? { speaker: segment.speaker } : {}),
+      startTime: roundTime(segment.timestamp),
+      endTime: roundTime(SegmentTiming.getEndTime(segment)),
+      body: segment.text,
+      ...(options.flagEdits && segment.edited ? { edited: true } : {})
+    }));
+
+    return JSON.stringify({
+      version: source?.version || PODCAST_INDEX_JSON_VERSION,
+      ...source?.metadata,
+      segments
+    }, null, 2);
+  }
+
+  static exportAs(
+    episode: Episode,
+    format: ExportFormat,
+    includeTimestamps: boolean = true,
+    subtitleOptions: SubtitleExportOptions = {},
+    options: ExportOptions = {}
+  ): string {
+    switch (format) {
+      case 'markdown': return this.exportAsMarkdown(episode, includeTimestamps, options);
+      case 'srt': return this.exportAsSrt(episode, { ...subtitleOptions, ...options });
+      case 'vtt': return this.exportAsWebVtt(episode, { ...subtitleOptions, ...options });
+      case 'ttml': return this.exportAsTtml(episode, { ...subtitleOptions, ...options });
+      case 'json': return this.exportAsPodcastIndexJson(episode, options);
+      default: return this.exportAsText(episode, includeTimestamps, options);
+    }
+  }
+
+  /**
+   * Collects highlights and bookmarks into one research notebook, grouped by
+   * episode. Every quote names its episode, podcast and time, so it still makes
+   * sense when pasted somewhere on its own.
+   */
+  static exportAnnotations(episodes: Episode[], format: NotebookFormat, filters: AnnotationFilters = {}): string {
+    const quotes = EpisodeAnnotations.filter(EpisodeAnnotations.collect(episodes), filters).map(({ episode, annotation }) => {
+      const anchor = EpisodeAnnotations.resolve(episode, annotation);
+      return {
+        episode,
+        annotation,
+        timestamp: annotation.kind === 'highlight' && anchor ? anchor.segment.timestamp : annotation.timestamp,
+        speaker: anchor ? SpeakerRoster.displayName(episode, anchor.segment.speaker) : undefined
+      };
+    });
+
+    switch (format) {
+      case 'html': return this.notebookAsHtml(quotes, filters);
+      case 'json': return this.notebookAsJson(quotes, filters);
+      default: return this.notebookAsMarkdown(quotes, filters);
+    }
+  }
+
+  static getNotebookExtension(format: NotebookFormat): string {
+    return NOTEBOOK_EXTENSIONS[format];
+  }
+
+  static exportImportReportAsCsv(report: ImportReport): string {
+    const escapeCsv = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = [['File', 'Status', 'Episodes', 'Details']];
+
+    report.entries.forEach(entry => {
+      rows.push([entry.fileName, entry.status, String(entry.episodeCount ?? 0), entry.detail || '']);
+    });
+
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+  }
+
+  static exportImportReportAsJson(report: ImportReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  static getFileExtension(format: ExportFormat): string {
+    return FILE_EXTENSIONS[format];
+  }
+
+  static downloadFile(content: string, filename: string, type: DownloadType = 'text'): void {
+    const mimeType = MIME_TYPES[type];
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     
@@ -96,6 +337,240 @@ export class ExportUtils {
     }
   }
 
+  /**
+   * Splits each segment into cues that respect the line length and cue duration
+   * limits. Cues carry the speaker's display name. A segment's time span is
+   * shared out between its cues in proportion to how much of the text each
+   * one carries.
+   */
+  private static buildSubtitleCues(episode: Episode, options: Required<SubtitleExportOptions>): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    const segments = episode.transcript;
+
+    segments.forEach((segment, index) => {
+      const words = segment.text.split(/\s+/).filter(word => word.length > 0);
+      if (words.length === 0) return;
+
+      const start = segment.timestamp;
+      const next = segments.slice(index + 1).find(candidate => candidate.timestamp > start);
+      let end = segment.endTime !== undefined && segment.endTime > start
+        ? segment.endTime
+        : next ? next.timestamp : SegmentTiming.getEndTime(segment);
+      if (!next && episode.duration > start) {
+        end = Math.min(end, episode.duration);
+      }
+
+      const totalLength = words.join(' ').length;
+      const secondsPerChar = (end - start) / Math.max(totalLength, 1);
+
+      let cueStart = start;
+      let firstOfSegment = true;
+      let consumed = 0;
+      let lines: string[] = [];
+      let line = '';
+
+      const closeCue = () => {
+        if (line) lines.push(line);
+        if (lines.length === 0) return;
+
+        const cueEnd = consumed >= totalLength ? end : Math.min(end, start + consumed * secondsPerChar);
+
+        cues.push({
+          start: cueStart,
+          end: Math.max(cueEnd, cueStart),
+          lines,
+          speaker: SpeakerRoster.displayName(episode, segment.speaker),
+          firstOfSegment,
+          edited: !!segment.edited
+        });
+
+        cueStart = cueEnd;
+        firstOfSegment = false;
+        lines = [];
+        line = '';
+      };
+
+      words.forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+
+        if (line && candidate.length > options.maxLineLength) {
+          if (lines.length + 1 >= MAX_LINES_PER_CUE) {
+            closeCue();
+          } else {
+            lines.push(line);
+            line = '';
+          }
+        }
+
+        const projectedEnd = start + (consumed + word.length + 1) * secondsPerChar;
+        if ((lines.length > 0 || line) && projectedEnd - cueStart > options.maxCueDuration) {
+          closeCue();
+        }
+
+        line = line ? `${line} ${word}` : word;
+        consumed += word.length + (consumed > 0 ? 1 : 0);
+      });
+
+      consumed = totalLength;
+      closeCue();
+    });
+
+    return cues;
+  }
+
+  private static notebookAsMarkdown(quotes: NotebookQuote[], filters: AnnotationFilters): string {
+    let content = '# Research notebook\n\n';
+    content += `${this.notebookSummary(quotes, filters)}\n`;
+
+    this.groupByEpisode(quotes).forEach(group => {
+      const { episode } = group[0];
+      content += `\n## ${episode.title}\n\n`;
+      content += `*${episode.podcastTitle}* · Published ${new Date(episode.publishDate).toLocaleDateString()}\n`;
+
+      group.forEach(quote => {
+        const { annotation } = quote;
+        content += '\n';
+        if (annotation.quote) {
+          content += annotation.quote.split('\n').map(line => `> ${line}`).join('\n') + '\n>\n';
+          content += `> — ${this.notebookCitation(quote)}\n`;
+        } else {
+          content += `**Bookmark** — ${this.notebookCitation(quote)}\n`;
+        }
+        if (annotation.note) {
+          content += `\n${annotation.note}\n`;
+        }
+        if (annotation.tags.length > 0) {
+          // Obsidian and Notion tags can't contain spaces
+          content += `\n${annotation.tags.map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' ')}\n`;
+        }
+      });
+    });
+
+    return content;
+  }
+
+  private static notebookAsHtml(quotes: NotebookQuote[], filters: AnnotationFilters): string {
+    const html = (text: string) => this.escapeXml(text).replace(/\n/g, '<br>');
+
+    let content = '<!DOCTYPE html>\n<html lang="en">\n<head>\n  <meta charset="utf-8">\n';
+    content += '  <title>Research notebook</title>\n</head>\n<body>\n';
+    content += '  <h1>Research notebook</h1>\n';
+    content += `  <p>${html(this.notebookSummary(quotes, filters))}</p>\n`;
+
+    this.groupByEpisode(quotes).forEach(group => {
+      const { episode } = group[0];
+      content += '  <section>\n';
+      content += `    <h2>${html(episode.title)}</h2>\n`;
+      content += `    <p><em>${html(episode.podcastTitle)}</em> · Published ${html(new Date(episode.publishDate).toLocaleDateString())}</p>\n`;
+
+      group.forEach(quote => {
+        const { annotation } = quote;
+        content += '    <figure>\n';
+        content += annotation.quote
+          ? `      <blockquote>${html(annotation.quote)}</blockquote>\n`
+          : '      <p><strong>Bookmark</strong></p>\n';
+        content += `      <figcaption>— ${html(this.notebookCitation(quote))}</figcaption>\n`;
+        if (annotation.note) {
+          content += `      <p>${html(annotation.note)}</p>\n`;
+        }
+        if (annotation.tags.length > 0) {
+          content += `      <p>${annotation.tags.map(tag => `<mark>${html(tag)}</mark>`).join(' ')}</p>\n`;
+        }
+        content += '    </figure>\n';
+      });
+
+      content += '  </section>\n';
+    });
+
+    content += '</body>\n</html>\n';
+    return content;
+  }
+
+  private static notebookAsJson(quotes: NotebookQuote[], filters: AnnotationFilters): string {
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      filters,
+      annotations: quotes.map(({ episode, annotation, timestamp, speaker }) => ({
+        type: annotation.kind,
+        podcast: episode.podcastTitle,
+        episode: episode.title,
+        episodeId: episode.id,
+        publishDate: episode.publishDate,
+        timestamp,
+        time: this.formatTime(timestamp),
+        ...(speaker ? { speaker } : {}),
+        ...(annotation.quote ? { quote: annotation.quote } : {}),
+        ...(annotation.note ? { note: annotation.note } : {}),
+        tags: annotation.tags,
+        createdAt: annotation.createdAt
+      }))
+    }, null, 2);
+  }
+
+  // "Speaker, “Episode”, Podcast, 12:34"
+  private static notebookCitation({ episode, timestamp, speaker }: NotebookQuote): string {
+    return [speaker, `“${episode.title}”`, episode.podcastTitle, this.formatTime(timestamp)]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  private static notebookSummary(quotes: NotebookQuote[], filters: AnnotationFilters): string {
+    const parts = [
+      `Exported ${new Date().toLocaleDateString()}`,
+      `${quotes.length} annotation${quotes.length === 1 ? '' : 's'}`,
+      filters.tag && `tag: ${filters.tag}`,
+      filters.podcast && `podcast: ${filters.podcast}`,
+      filters.from && `from ${filters.from}`,
+      filters.to && `to ${filters.to}`
+    ];
+    return parts.filter(Boolean).join(' · ');
+  }
+
+  // Quotes arrive episode by episode, so each run of one episode's quotes is a group
+  private static groupByEpisode(quotes: NotebookQuote[]): NotebookQuote[][] {
+    const groups: NotebookQuote[][] = [];
+    quotes.forEach(quote => {
+      const last = groups[groups.length - 1];
+      if (last && last[0].episode.id === quote.episode.id) {
+        last.push(quote);
+      } else {
+        groups.push([quote]);
+      }
+    });
+    return groups;
+  }
+
+  private static formatSubtitleTime(seconds: number, fractionSeparator: ',' | '.'): string {
+    const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMilliseconds / 3600000);
+    const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+    const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+    const millis = totalMilliseconds % 1000;
+
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:` +
+           `${secs.toString().padStart(2, '0')}${fractionSeparator}${millis.toString().padStart(3, '0')}`;
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static escapeVtt(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  // NOTE text is taken verbatim, ends at the first blank line and may not contain "-->"
+  private static vttNoteLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().replace(/--+>/g, '->');
+  }
+
   private static formatTime(seconds: number): string {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -1,485 +1,347 @@
-import JSZip from 'jszip';
-import { Episode, TranscriptSegment, FileProcessingResult } from '../types/transcript';
+import { Episode, FileProcessingResult, AudioAttachment, ImportStatus, ImportReportEntry, LibraryEpisodeRecord } from '../types/transcript';
+import { PodcastLibrary } from './podcastLibrary';
+import { SqliteWal } from './sqliteWal';
+import { EpisodeBuilder } from './parsers/episodeBuilder';
+import { ParserOutput, ParserSource, ParserSources } from './parsers/parserPlugin';
+import { ParserRegistry } from './parsers/parserRegistry';
+
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.aac', '.mp4'];
+
+export interface ImportProgress {
+  fileName: string;
+  filesProcessed: number;
+  fileCount: number;
+  // Set while working through the entries of a ZIP archive
+  entriesProcessed?: number;
+  entryCount?: number;
+}
+
+export interface ProcessFilesOptions {
+  onProgress?: (progress: ImportProgress) => void;
+  signal?: AbortSignal;
+}
 
 export class FileParser {
-  async processFiles(files: FileList): Promise<FileProcessingResult> {
+  static isAudioFile(filename: string): boolean {
+    const lowerName = filename.toLowerCase();
+    return AUDIO_EXTENSIONS.some(extension => lowerName.endsWith(extension));
+  }
+
+  private registry: ParserRegistry;
+  // Audio found inside archives during processFiles, matched with the rest at the end
+  private archiveAudio: File[] = [];
+
+  constructor(registry: ParserRegistry = ParserRegistry.createDefault()) {
+    this.registry = registry;
+  }
+
+  async processFiles(files: FileList | File[], options: ProcessFilesOptions = {}): Promise<FileProcessingResult> {
+    const { onProgress, signal } = options;
     const result: FileProcessingResult = {
       episodes: [],
-      errors: []
+      errors: [],
+      report: []
     };
+    const audioFiles: File[] = [];
+    const fileList = Array.from(files);
+    const logs = this.collectLogs(fileList.map(file => ParserSources.fromBlob(file.name, file)));
+    this.archiveAudio = [];
 
-    console.log(`Processing ${files.length} files...`);
-
-    for (const file of Array.from(files)) {
-      try {
-        console.log(`Processing file: ${file.name}, size: ${file.size}, type: ${file.type}`);
-        
-        // Check if this is a directory (directories have empty type and size 0)
-        if (file.type === '' && file.size === 0) {
-          console.log(`Skipping directory: ${file.name}`);
-          result.errors.push(`Cannot process directory "${file.name}". Please select individual files instead.`);
-          continue;
-        }
-        
-        if (file.name.endsWith('.zip')) {
-          const zipResult = await this.processZipFile(file);
-          result.episodes.push(...zipResult.episodes);
-          result.errors.push(...zipResult.errors);
-        } else if (file.name.endsWith('.json')) {
-          const episode = await this.processJsonFile(file);
-          if (episode) result.episodes.push(episode);
-        } else if (file.name.endsWith('.plist') || file.name.endsWith('.xml')) {
-          const episode = await this.processPlistFile(file);
-          if (episode) result.episodes.push(episode);
-        } else if (file.name.endsWith('.sqlite') || file.name.endsWith('.db')) {
-          // Apple Podcasts often stores data in SQLite databases
-          console.log(`SQLite file detected: ${file.name}`);
-          result.errors.push(`SQLite files (${file.name}) cannot be processed in the browser. Please look for JSON or PLIST files in the podcast data folder.`);
-        } else if (file.name.includes('transcript') || file.name.includes('Transcript')) {
-          // Try to process any file that might contain transcript data
-          const episode = await this.processGenericFile(file);
-          if (episode) result.episodes.push(episode);
-        } else {
-          console.log(`Attempting to process unknown file type: ${file.name}`);
-          // Try to process as text/JSON anyway
-          const episode = await this.processGenericFile(file);
-          if (episode) {
-            result.episodes.push(episode);
-          } else {
-            console.log(`No transcript data found in: ${file.name}`);
-          }
-        }
-      } catch (error) {
-        console.error(`Error processing ${file.name}:`, error);
-        result.errors.push(`Error processing ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
+    console.log(`Processing ${fileList.length} files...`);
 
-    console.log(`Processing complete. Found ${result.episodes.length} episodes, ${result.errors.length} errors`);
-    return result;
-  }
+    for (const [fileIndex, file] of fileList.entries()) {
+      this.throwIfCancelled(signal);
+      onProgress?.({ fileName: file.name, filesProcessed: fileIndex, fileCount: fileList.length });
 
-  private async processGenericFile(file: File): Promise<Episode | null> {
-    try {
-      const content = await file.text();
+      console.log(`Processing file: ${file.name}, size: ${file.size}, type: ${file.type}`);
       
-      // Try JSON first
-      try {
-        const episode = this.parseJsonContent(content, file.name);
-        if (episode) return episode;
-      } catch (e) {
-        // Not JSON, continue
+      // Check if this is a directory (directories have empty type and size 0)
+      if (file.type === '' && file.size === 0) {
+        console.log(`Skipping directory: ${file.name}`);
+        result.errors.push(`Cannot process directory "${file.name}". Please drop the folder again or use "Choose a folder".`);
+        this.addReport(result, file.name, 'skipped', 'This browser passed the folder on as a file - drop it again or use "Choose a folder"');
+        continue;
       }
-      
-      // Try XML/PLIST
-      try {
-        const episode = this.parsePlistContent(content, file.name);
-        if (episode) return episode;
-      } catch (e) {
-        // Not XML, continue
+
+      if (FileParser.isAudioFile(file.name)) {
+        // Audio is matched to the transcripts once every file has been parsed
+        audioFiles.push(file);
+        continue;
       }
-      
-      // Try to extract any text that might be transcript content
-      if (content.length > 100 && this.looksLikeTranscript(content)) {
-        return this.createEpisodeFromText(content, file.name);
+
+      if (SqliteWal.isLog(file.name)) {
+        this.reportLog(result, file.name, fileList.some(other => other.name === SqliteWal.databaseName(file.name)));
+        continue;
       }
-      
-    } catch (error) {
-      console.error(`Error reading file ${file.name}:`, error);
+
+      await this.processSource(result, this.withLog(ParserSources.fromBlob(file.name, file), logs.get(file.name)), file.name, signal, (entriesProcessed, entryCount) => {
+        onProgress?.({ fileName: file.name, filesProcessed: fileIndex, fileCount: fileList.length, entriesProcessed, entryCount });
+      });
+    }
+
+    onProgress?.({ fileName: '', filesProcessed: fileList.length, fileCount: fileList.length });
+
+    this.applyLibraryMetadata(result);
+
+    audioFiles.push(...this.archiveAudio);
+    if (audioFiles.length > 0) {
+      this.matchAudioFiles(result, audioFiles);
     }
-    
-    return null;
-  }
 
-  private looksLikeTranscript(content: string): boolean {
-    // Check if content looks like transcript data
-    const transcriptIndicators = [
-      'transcript',
-      'speaker',
-      'timestamp',
-      'time',
-      'text',
-      'dialogue',
-      'conversation'
-    ];
-    
-    const lowerContent = content.toLowerCase();
-    const indicatorCount = transcriptIndicators.filter(indicator => 
-      lowerContent.includes(indicator)
-    ).length;
-    
-    return indicatorCount >= 2;
+    console.log(`Processing complete. Found ${result.episodes.length} episodes, ${result.errors.length} errors`);
+    return result;
   }
 
-  private createEpisodeFromText(content: string, filename: string): Episode {
-    // Split content into segments based on common patterns
-    const lines = content.split('\n').filter(line => line.trim().length > 0);
-    const segments: TranscriptSegment[] = [];
-    
-    lines.forEach((line, index) => {
-      const trimmedLine = line.trim();
-      if (trimmedLine.length > 10) { // Filter out very short lines
-        segments.push({
-          id: `segment-${index}`,
-          text: trimmedLine,
-          timestamp: index * 5, // Approximate timing
-        });
+  /**
+   * Pairs audio files with the episodes parsed in the same batch when the audio
+   * file's name, ignoring case, spacing and punctuation, is exactly an
+   * episode's title or the name of the file it came from. A name that fits
+   * several episodes is left for the user to attach. A lone audio file dropped
+   * with a lone transcript is paired regardless of its name. Episodes that
+   * already have audio from an earlier call are passed over.
+   */
+  matchAudioFiles(result: FileProcessingResult, audioFiles: File[]) {
+    const { episodes, errors } = result;
+    const attachments: AudioAttachment[] = [...(result.audioAttachments || [])];
+    const normalize = (name: string) => EpisodeBuilder.titleFromFilename(name).toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+    // A file that produced a single episode names that episode
+    const sourceNames = new Map<string, string>();
+    result.report.forEach(entry => {
+      if (entry.status === 'imported' && entry.episodeIds?.length === 1) {
+        sourceNames.set(entry.episodeIds[0], normalize(entry.fileName));
       }
     });
 
-    return {
-      id: this.generateId(),
-      title: filename.replace(/\.[^/.]+$/, ''),
-      podcastTitle: 'Imported Podcast',
-      duration: segments.length * 5,
-      publishDate: new Date().toISOString(),
-      transcript: segments
-    };
-  }
-
-  private async processZipFile(file: File): Promise<FileProcessingResult> {
-    const result: FileProcessingResult = {
-      episodes: [],
-      errors: []
-    };
+    audioFiles.forEach(file => {
+      const audioName = normalize(file.name);
+      const unmatched = episodes.filter(episode => !attachments.some(attachment => attachment.episodeId === episode.id));
 
-    try {
-      const zip = new JSZip();
-      const contents = await zip.loadAsync(file);
+      const candidates = audioName ? unmatched.filter(candidate =>
+        normalize(candidate.title) === audioName || sourceNames.get(candidate.id) === audioName
+      ) : [];
+      let episode = candidates.length === 1 ? candidates[0] : undefined;
 
-      console.log(`ZIP file contains ${Object.keys(contents.files).length} files`);
+      if (!episode && candidates.length === 0 && episodes.length === 1 && audioFiles.length === 1 && unmatched.length === 1) {
+        episode = episodes[0];
+      }
 
-      for (const [filename, zipEntry] of Object.entries(contents.files)) {
-        if (zipEntry.dir) continue;
+      if (episode) {
+        console.log(`Matched audio file ${file.name} to episode "${episode.title}"`);
+        episode.audioFileName = file.name;
+        attachments.push({ episodeId: episode.id, file });
+        this.addReport(result, file.name, 'imported', `Audio attached to "${episode.title}"`, [episode.id]);
+      } else if (candidates.length > 1) {
+        const titles = candidates.map(candidate => `"${candidate.title}"`).join(', ');
+        errors.push(`Audio file "${file.name}" could belong to ${titles}. Attach it from the right episode's view.`);
+        this.addReport(result, file.name, 'skipped', `Audio name fits several transcripts (${titles}) - attach it from the episode view`);
+      } else {
+        errors.push(`Could not match audio file "${file.name}" to a transcript. Attach it from the episode view instead.`);
+        this.addReport(result, file.name, 'skipped', 'Audio did not match any transcript in this import - attach it from the episode view');
+      }
+    });
 
-        console.log(`Processing ZIP entry: ${filename}`);
+    result.audioAttachments = attachments;
+  }
 
-        try {
-          const content = await zipEntry.async('text');
-          
-          if (filename.endsWith('.json')) {
-            const episode = this.parseJsonContent(content, filename);
-            if (episode) result.episodes.push(episode);
-          } else if (filename.endsWith('.plist') || filename.endsWith('.xml')) {
-            const episode = this.parsePlistContent(content, filename);
-            if (episode) result.episodes.push(episode);
-          } else if (filename.includes('transcript') || this.looksLikeTranscript(content)) {
-            const episode = this.createEpisodeFromText(content, filename);
-            if (episode.transcript.length > 0) result.episodes.push(episode);
-          }
-        } catch (error) {
-          console.error(`Error processing ZIP entry ${filename}:`, error);
-          result.errors.push(`Error processing ${filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+  /**
+   * Gives episodes the titles, shows and dates from any Podcasts library
+   * database in the import.
+   */
+  private applyLibraryMetadata(result: FileProcessingResult) {
+    const records = result.libraryRecords;
+    if (!records || records.length === 0) return;
+
+    const { episodes, matched } = PodcastLibrary.applyMetadata(result.episodes, records);
+    const episodesById = new Map(episodes.map(episode => [episode.id, episode]));
+    result.episodes = episodes;
+
+    result.report.forEach(entry => {
+      if (entry.status !== 'imported') return;
+      if (PodcastLibrary.isLibraryFile(entry.fileName)) {
+        entry.detail = `Podcasts library with ${records.length} episodes; details filled in for ${matched} imported ${matched === 1 ? 'episode' : 'episodes'}`;
+      } else if (entry.episodeIds?.length === 1 && episodesById.has(entry.episodeIds[0])) {
+        entry.detail = this.episodeDetail(episodesById.get(entry.episodeIds[0])!);
       }
-    } catch (error) {
-      console.error('Error reading ZIP file:', error);
-      result.errors.push(`Error reading ZIP file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-
-    return result;
+    });
+    console.log(`Matched ${matched} of ${episodes.length} episodes to the Podcasts library`);
   }
 
-  private async processJsonFile(file: File): Promise<Episode | null> {
-    const content = await file.text();
-    return this.parseJsonContent(content, file.name);
+  private addLibraryRecords(result: FileProcessingResult, fileName: string, records: LibraryEpisodeRecord[]) {
+    result.libraryRecords = [...(result.libraryRecords || []), ...records];
+    this.addReport(result, fileName, 'imported', `Podcasts library with ${records.length} episodes`);
   }
 
-  private async processPlistFile(file: File): Promise<Episode | null> {
-    const content = await file.text();
-    return this.parsePlistContent(content, file.name);
+  private episodeDetail(episode: Episode): string {
+    return `"${episode.title}" (${episode.transcript.length} segments)`;
   }
 
-  private parseJsonContent(content: string, filename: string): Episode | null {
+  /**
+   * Runs a file through the parsers that recognise it, most confident first,
+   * and records the first one that finds anything. `reportName` is the name
+   * shown in the report, which for archive entries includes the archive's name.
+   */
+  private async processSource(
+    result: FileProcessingResult,
+    source: ParserSource,
+    reportName: string,
+    signal?: AbortSignal,
+    onEntry?: (entriesProcessed: number, entryCount: number) => void
+  ) {
+    let failure: { label: string; error: unknown } | undefined;
+
     try {
-      const data = JSON.parse(content);
-      console.log(`Parsing JSON content from ${filename}:`, Object.keys(data));
-      
-      // Handle Apple Podcasts specific structures
-      if (data.MTEpisode || data.episode) {
-        return this.extractApplePodcastEpisode(data, filename);
+      const candidates = this.registry.rank(source.fileName, await source.head());
+      if (candidates.length === 0) {
+        this.addReport(result, reportName, 'skipped', 'Not a recognized transcript format');
+        return;
       }
-      
-      // Handle various JSON structures that might contain podcast data
-      if (data.episodes && Array.isArray(data.episodes)) {
-        // Multiple episodes format
-        const episode = this.extractEpisodeFromData(data.episodes[0], filename);
-        if (episode) return episode;
-      }
-      
-      if (data.transcript || data.segments || data.lines) {
-        // Single episode format
-        return this.extractEpisodeFromData(data, filename);
-      }
-      
-      if (Array.isArray(data)) {
-        // Array of transcript segments or episodes
-        if (data.length > 0) {
-          if (data[0].text || data[0].content) {
-            // Array of transcript segments
-            return this.createEpisodeFromSegments(data, filename);
-          } else if (data[0].transcript || data[0].segments) {
-            // Array of episodes
-            return this.extractEpisodeFromData(data[0], filename);
-          }
+
+      for (const { plugin, confidence } of candidates) {
+        this.throwIfCancelled(signal);
+        let output: ParserOutput;
+        try {
+          output = await plugin.parse(source);
+        } catch (error) {
+          if (this.isCancellation(error)) throw error;
+          console.error(`${plugin.label} parser failed on ${reportName}:`, error);
+          failure ??= { label: plugin.label, error };
+          continue;
         }
-      }
-      
-      // Look for any property that might contain transcript data
-      for (const [key, value] of Object.entries(data)) {
-        if (Array.isArray(value) && value.length > 0) {
-          const firstItem = value[0];
-          if (typeof firstItem === 'object' && (firstItem.text || firstItem.content)) {
-            console.log(`Found potential transcript data in property: ${key}`);
-            return this.createEpisodeFromSegments(value, filename);
-          }
+
+        if (output.kind === 'archive') {
+          await this.processArchive(result, output.entries, reportName, signal, onEntry);
+          return;
+        }
+        if (output.kind === 'library') {
+          this.addLibraryRecords(result, reportName, output.records);
+          return;
+        }
+        if (output.episodes.length > 0) {
+          console.log(`Read ${reportName} as ${plugin.label} (confidence ${confidence})`);
+          this.recordEpisodes(result, reportName, output.episodes);
+          return;
         }
       }
-      
     } catch (error) {
-      console.error('JSON parsing error:', error);
+      if (this.isCancellation(error)) throw error;
+      failure = { label: '', error };
     }
-    
-    return null;
-  }
 
-  private extractApplePodcastEpisode(data: any, filename: string): Episode | null {
-    const episodeData = data.MTEpisode || data.episode || data;
-    
-    // Look for transcript data in Apple Podcasts format
-    const transcriptData = episodeData.transcript || 
-                          episodeData.transcriptSegments || 
-                          episodeData.segments ||
-                          episodeData.lines;
-    
-    if (!transcriptData) {
-      console.log('No transcript data found in Apple Podcasts format');
-      return null;
+    if (failure) {
+      const message = failure.error instanceof Error ? failure.error.message : 'Unknown error';
+      console.error(`Error processing ${reportName}:`, failure.error);
+      result.errors.push(`Error processing ${reportName}: ${message}`);
+      this.addReport(result, reportName, 'failed', failure.label ? `Could not read as ${failure.label}: ${message}` : message);
+    } else {
+      this.addReport(result, reportName, 'skipped', 'No transcript data found');
     }
-
-    const segments = this.extractSegments({ segments: transcriptData });
-    if (segments.length === 0) return null;
-
-    return {
-      id: this.generateId(),
-      title: episodeData.title || episodeData.name || filename,
-      podcastTitle: episodeData.podcastTitle || episodeData.showTitle || episodeData.podcast || 'Unknown Podcast',
-      duration: episodeData.duration || this.calculateDuration(segments),
-      publishDate: episodeData.publishDate || episodeData.date || episodeData.pubDate || new Date().toISOString(),
-      description: episodeData.description || episodeData.summary,
-      transcript: segments
-    };
   }
 
-  private parsePlistContent(content: string, filename: string): Episode | null {
-    try {
-      console.log(`Parsing PLIST content from ${filename}`);
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(content, 'text/xml');
-      
-      // Check for parsing errors
-      const parserError = xmlDoc.querySelector('parsererror');
-      if (parserError) {
-        console.error('XML parsing error:', parserError.textContent);
-        return null;
+  private async processArchive(
+    result: FileProcessingResult,
+    entries: ParserSource[],
+    archiveName: string,
+    signal?: AbortSignal,
+    onEntry?: (entriesProcessed: number, entryCount: number) => void
+  ) {
+    const logs = this.collectLogs(entries);
+
+    for (const [entryIndex, entry] of entries.entries()) {
+      this.throwIfCancelled(signal);
+      onEntry?.(entryIndex, entries.length);
+
+      if (FileParser.isAudioFile(entry.fileName)) {
+        const name = entry.fileName.split('/').pop() || entry.fileName;
+        this.archiveAudio.push(new File([await entry.bytes()], name));
+        continue;
       }
-      
-      // Look for transcript data in plist structure
-      const transcriptData = this.extractTranscriptFromPlist(xmlDoc);
-      if (transcriptData && transcriptData.length > 0) {
-        return this.createEpisodeFromSegments(transcriptData, filename);
-      }
-      
-      // Try to extract any text content that might be transcript data
-      const allTextNodes = xmlDoc.querySelectorAll('string');
-      const textSegments: TranscriptSegment[] = [];
-      
-      allTextNodes.forEach((node, index) => {
-        const text = node.textContent?.trim();
-        if (text && text.length > 20) { // Filter out short metadata strings
-          textSegments.push({
-            id: `segment-${index}`,
-            text,
-            timestamp: index * 5,
-          });
-        }
-      });
-      
-      if (textSegments.length > 0) {
-        return this.createEpisodeFromSegments(textSegments, filename);
+
+      if (SqliteWal.isLog(entry.fileName)) {
+        const databaseName = SqliteWal.databaseName(entry.fileName);
+        this.reportLog(result, `${archiveName}/${entry.fileName}`, entries.some(other => other.fileName === databaseName));
+        continue;
       }
-      
-    } catch (error) {
-      console.error('Plist parsing error:', error);
+
+      console.log(`Processing ZIP entry: ${entry.fileName}`);
+      await this.processSource(result, this.withLog(entry, logs.get(entry.fileName)), `${archiveName}/${entry.fileName}`, signal);
     }
-    
-    return null;
   }
 
-  private extractTranscriptFromPlist(xmlDoc: Document): TranscriptSegment[] | null {
-    const segments: TranscriptSegment[] = [];
-    
-    // Look for various plist structures that might contain transcript data
-    const dictElements = xmlDoc.querySelectorAll('dict');
-    
-    dictElements.forEach((dict, dictIndex) => {
-      const keys = dict.querySelectorAll('key');
-      const values = dict.querySelectorAll('string, real, integer');
-      
-      let segmentData: any = {};
-      
-      for (let i = 0; i < keys.length && i < values.length; i++) {
-        const key = keys[i].textContent?.toLowerCase();
-        const value = values[i].textContent;
-        
-        if (key && value) {
-          segmentData[key] = value;
-        }
-      }
-      
-      // Check if this dict contains transcript-like data
-      if (segmentData.text || segmentData.content || segmentData.transcript) {
-        segments.push({
-          id: `segment-${dictIndex}`,
-          text: segmentData.text || segmentData.content || segmentData.transcript,
-          timestamp: parseFloat(segmentData.timestamp || segmentData.time || dictIndex * 5),
-          speaker: segmentData.speaker || segmentData.name
-        });
-      }
-    });
-    
-    // If no structured data found, try to extract any meaningful text
-    if (segments.length === 0) {
-      const textElements = xmlDoc.querySelectorAll('string');
-      textElements.forEach((element, index) => {
-        const text = element.textContent?.trim();
-        if (text && text.length > 20 && this.looksLikeTranscriptText(text)) {
-          segments.push({
-            id: `segment-${index}`,
-            text,
-            timestamp: index * 5,
-          });
-        }
-      });
-    }
-    
-    return segments.length > 0 ? segments : null;
+  // SQLite write-ahead logs in a batch, keyed by the name of their database
+  private collectLogs(sources: ParserSource[]): Map<string, ParserSource> {
+    return new Map(sources
+      .filter(source => SqliteWal.isLog(source.fileName))
+      .map(source => [SqliteWal.databaseName(source.fileName), source]));
   }
 
-  private looksLikeTranscriptText(text: string): boolean {
-    // Check if text looks like spoken content rather than metadata
-    const metadataPatterns = [
-      /^https?:\/\//,  // URLs
-      /^\d+$/,         // Just numbers
-      /^[A-Z_]+$/,     // All caps (likely constants)
-      /^\w+\.\w+$/,    // File extensions
-    ];
-    
-    return !metadataPatterns.some(pattern => pattern.test(text)) && 
-           text.split(' ').length > 3; // Has multiple words
+  /**
+   * Reads a database together with its write-ahead log, which holds what a
+   * running Podcasts app hadn't yet written back, such as recent episodes.
+   */
+  private withLog(source: ParserSource, log?: ParserSource): ParserSource {
+    if (!log) return source;
+    return ParserSources.fromLoader(source.fileName, async () => SqliteWal.apply(await source.bytes(), await log.bytes()));
   }
 
-  private extractEpisodeFromData(data: any, filename: string): Episode | null {
-    console.log('Extracting episode from data:', Object.keys(data));
-    const segments = this.extractSegments(data);
-    if (segments.length === 0) {
-      console.log('No segments found in episode data');
-      return null;
+  private reportLog(result: FileProcessingResult, reportName: string, paired: boolean) {
+    const databaseName = SqliteWal.databaseName(reportName).split('/').pop();
+    if (paired) {
+      this.addReport(result, reportName, 'imported', `Recent changes read along with ${databaseName}`);
+    } else {
+      this.addReport(result, reportName, 'skipped', `SQLite log without its database - import it together with ${databaseName}`);
     }
-
-    return {
-      id: this.generateId(),
-      title: data.title || data.episodeTitle || data.name || filename,
-      podcastTitle: data.podcastTitle || data.showTitle || data.podcast || 'Unknown Podcast',
-      duration: data.duration || this.calculateDuration(segments),
-      publishDate: data.publishDate || data.date || data.pubDate || new Date().toISOString(),
-      description: data.description || data.summary,
-      transcript: segments
-    };
   }
 
-  private createEpisodeFromSegments(segments: any[], filename: string): Episode | null {
-    const transcriptSegments = this.extractSegments({ segments });
-    if (transcriptSegments.length === 0) return null;
-
-    return {
-      id: this.generateId(),
-      title: filename.replace(/\.[^/.]+$/, ''),
-      podcastTitle: 'Imported Podcast',
-      duration: this.calculateDuration(transcriptSegments),
-      publishDate: new Date().toISOString(),
-      transcript: transcriptSegments
-    };
-  }
+  private recordEpisodes(result: FileProcessingResult, fileName: string, episodes: Episode[], emptyReason = 'No transcript data found') {
+    if (episodes.length === 0) {
+      this.addReport(result, fileName, 'skipped', emptyReason);
+      return;
+    }
 
-  private extractSegments(data: any): TranscriptSegment[] {
-    const segments: TranscriptSegment[] = [];
-    
-    // Handle various segment structures
-    const transcriptData = data.transcript || 
-                          data.segments || 
-                          data.lines || 
-                          data.transcriptSegments ||
-                          data.items ||
-                          [];
-    
-    console.log(`Extracting segments from data with ${Array.isArray(transcriptData) ? transcriptData.length : 0} items`);
-    
-    if (Array.isArray(transcriptData)) {
-      transcriptData.forEach((segment: any, index: number) => {
-        let text = '';
-        let timestamp = 0;
-        let speaker = undefined;
-
-        if (typeof segment === 'string') {
-          text = segment;
-          timestamp = index * 5; // Approximate timing
-        } else if (typeof segment === 'object' && segment !== null) {
-          // Handle various property names for text content
-          text = segment.text || 
-                 segment.content || 
-                 segment.transcript || 
-                 segment.body ||
-                 segment.message ||
-                 '';
-          
-          // Handle various property names for timestamp
-          timestamp = parseFloat(segment.timestamp || 
-                                segment.time || 
-                                segment.start || 
-                                segment.startTime ||
-                                index * 5);
-          
-          // Handle speaker information
-          speaker = segment.speaker || 
-                   segment.name || 
-                   segment.author ||
-                   undefined;
-        }
+    // IDs come from content, so a second copy of a file in the same import shares its ID
+    const fresh: Episode[] = [];
+    let earlier: ImportReportEntry | undefined;
+    episodes.forEach(episode => {
+      const match = result.report.find(entry => entry.episodeIds?.includes(episode.id));
+      if (match) {
+        earlier = match;
+      } else if (!fresh.some(other => other.id === episode.id)) {
+        fresh.push(episode);
+      }
+    });
 
-        if (text && text.trim()) {
-          segments.push({
-            id: `segment-${index}`,
-            text: text.trim(),
-            timestamp,
-            speaker,
-            confidence: segment.confidence
-          });
-        }
-      });
+    if (fresh.length === 0) {
+      this.addReport(result, fileName, 'duplicate', earlier
+        ? `Same ${episodes.length === 1 ? 'episode' : 'episodes'} as ${earlier.fileName} earlier in this import`
+        : 'Every episode in the file repeats another');
+      return;
+    }
+
+    const repeated = episodes.length - fresh.length;
+    const podcastTitles = new Set(fresh.map(episode => episode.podcastTitle));
+    let detail = fresh.length === 1
+      ? this.episodeDetail(fresh[0])
+      : `${fresh.length} episodes${podcastTitles.size === 1 ? ` of "${fresh[0].podcastTitle}"` : ''}`;
+    if (repeated > 0) {
+      detail += `; ${repeated} repeated ${repeated === 1 ? 'episode' : 'episodes'} left out`;
     }
 
-    console.log(`Extracted ${segments.length} segments`);
-    return segments;
+    result.episodes.push(...fresh);
+    result.report.push({ fileName, status: 'imported', detail, episodeIds: fresh.map(episode => episode.id), episodeCount: episodes.length });
   }
 
-  private calculateDuration(segments: TranscriptSegment[]): number {
-    if (segments.length === 0) return 0;
-    const lastSegment = segments[segments.length - 1];
-    return lastSegment.timestamp + 30; // Estimate 30 seconds for last segment
+  private addReport(result: FileProcessingResult, fileName: string, status: ImportStatus, detail?: string, episodeIds?: string[]) {
+    result.report.push({ fileName, status, detail, episodeIds });
+  }
+
+  private throwIfCancelled(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw new DOMException('Import cancelled', 'AbortError');
+    }
   }
 
-  private generateId(): string {
-    return `episode-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private isCancellation(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+import { FindMatch, TranscriptSegment } from '../types/transcript';
+import { TranscriptEditor } from './transcriptEditor';
+
+/**
+ * Turns the matches SearchEngine.findMatches reports into transcript edits.
+ * Matches are checked against the segment text before replacing, so ones made
+ * stale by an edit since the find are skipped rather than corrupting the text.
+ */
+export class FindReplace {
+  /**
+   * The text a match is replaced with. In regex mode "$1", "$<name>", "$&" and
+   * "$$" are expanded the way String.replace expands them.
+   */
+  static replacementFor(match: FindMatch, replacement: string, regex: boolean): string {
+    if (!regex) return replacement;
+
+    return replacement.replace(/\$(\$|&|<([^>]*)>|(\d\d?))/g, (token, symbol: string, name?: string, digits?: string) => {
+      if (symbol === '$') return '$';
+      if (symbol === '&') return match.text;
+      if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token;
+
+      const capture = (index: number) => index >= 1 && index <= match.captures.length;
+      const index = parseInt(digits!, 10);
+      if (capture(index)) return match.captures[index - 1] ?? '';
+      // "$12" with fewer than 12 groups is "$1" followed by "2"
+      if (digits!.length === 2 && capture(parseInt(digits![0], 10))) {
+        return (match.captures[parseInt(digits![0], 10) - 1] ?? '') + digits![1];
+      }
+      return token;
+    });
+  }
+
+  /**
+   * Replaces the given matches in one episode's segments. Returns the new
+   * segments and the matches that were actually replaced.
+   */
+  static apply(
+    segments: TranscriptSegment[],
+    matches: FindMatch[],
+    replacement: string,
+    regex: boolean
+  ): { segments: TranscriptSegment[]; applied: FindMatch[] } {
+    const bySegment = new Map<string, FindMatch[]>();
+    matches.forEach(match => bySegment.set(match.segmentId, [...(bySegment.get(match.segmentId) || []), match]));
+
+    let result = segments;
+    const applied: FindMatch[] = [];
+
+    bySegment.forEach((segmentMatches, segmentId) => {
+      const segment = result.find(candidate => candidate.id === segmentId);
+      if (!segment) return;
+
+      // Last match first, so earlier offsets stay valid
+      let text = segment.text;
+      let lowestStart = Infinity;
+      const replaced: FindMatch[] = [];
+      [...segmentMatches].sort((a, b) => b.start - a.start).forEach(match => {
+        if (match.end > lowestStart || text.slice(match.start, match.end) !== match.text) return;
+        text = text.slice(0, match.start) + this.replacementFor(match, replacement, regex) + text.slice(match.end);
+        lowestStart = match.start;
+        replaced.push(match);
+      });
+
+      const updated = TranscriptEditor.updateSegment(result, segmentId, { text });
+      // An edit that would leave the segment empty is refused
+      if (updated !== result) {
+        result = updated;
+        applied.push(...replaced);
+      }
+    });
+
+    return { segments: result, applied };
+  }
+
+  /**
+   * Moves the remaining matches in a segment past a replaced one, so they can
+   * still be replaced one at a time.
+   */
+  static shiftAfter(matches: FindMatch[], replaced: FindMatch, replacementText: string): FindMatch[] {
+    const delta = replacementText.length - (replaced.end - replaced.start);
+    return matches
+      .filter(match => match !== replaced)
+      .map(match => match.episodeId === replaced.episodeId && match.segmentId === replaced.segmentId && match.start >= replaced.end
+        ? { ...match, start: match.start + delta, end: match.end + delta }
+        : match);
+  }
+}
@@ -0,0 +1,124 @@
+import { FileParser } from './fileParser';
+
+export interface FolderScanResult {
+  files: File[];
+  // Files that were left out as unrelated to transcripts
+  ignoredCount: number;
+}
+
+const TRANSCRIPT_EXTENSIONS = ['.json', '.ttml', '.vtt', '.srt', '.zip'];
+const XML_EXTENSIONS = ['.plist', '.xml'];
+
+// Only the start of files without a telling name is read to decide whether to keep them
+const SNIFF_BYTES = 512;
+
+/**
+ * Walks a dropped or picked folder and keeps the files worth importing. The
+ * Podcasts group container holds far more than transcripts - preferences,
+ * artwork, logs - so files are picked by path and, failing that, by content.
+ */
+export class FolderScanner {
+  /**
+   * Collects files from a drop, descending into any folders. Returns null when
+   * the drop held no folders, so callers can use the plain file list.
+   */
+  static async fromDataTransfer(dataTransfer: DataTransfer): Promise<FolderScanResult | null> {
+    // Entries have to be taken before the first await - the item list is emptied once the drop handler returns
+    const entries = Array.from(dataTransfer.items)
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    if (!entries.some(entry => entry.isDirectory)) return null;
+
+    const files: File[] = [];
+    for (const entry of entries) {
+      await this.walk(entry, files);
+    }
+    return this.select(files);
+  }
+
+  /**
+   * Filters the files of an `<input webkitdirectory>` selection.
+   */
+  static fromDirectoryInput(fileList: FileList): Promise<FolderScanResult> {
+    const files = Array.from(fileList).map(file => this.withPath(file, file.webkitRelativePath || file.name));
+    return this.select(files);
+  }
+
+  static async select(files: File[]): Promise<FolderScanResult> {
+    const selected: File[] = [];
+    for (const file of files) {
+      if (await this.isRelevant(file)) selected.push(file);
+    }
+    return { files: selected, ignoredCount: files.length - selected.length };
+  }
+
+  private static async isRelevant(file: File): Promise<boolean> {
+    const path = file.name;
+    const lowerPath = path.toLowerCase();
+    const basename = lowerPath.split('/').pop() || lowerPath;
+
+    // Hidden files, SQLite side files and empty files never hold transcripts
+    if (file.size === 0 || lowerPath.split('/').some(part => part.startsWith('.'))) return false;
+    // except the library's write-ahead log, which holds its most recent changes
+    if (/^mtlibrary.*\.(sqlite|db)-wal$/.test(basename)) return true;
+    if (/-(wal|shm|journal)$/.test(basename)) return false;
+
+    if (FileParser.isAudioFile(basename)) return true;
+    if (TRANSCRIPT_EXTENSIONS.some(extension => basename.endsWith(extension))) return true;
+
+    // The Podcasts library database; other databases in the container are unrelated
+    if (basename.endsWith('.sqlite') || basename.endsWith('.db')) return basename.startsWith('mtlibrary');
+
+    // Apple's transcript cache names files like transcript_123.ttml-123
+    if (/\.ttml-\d+$/.test(basename) || lowerPath.includes('/ttml/')) return true;
+
+    // Preference and state plists are everywhere in the container, so XML has to look like a transcript
+    if (XML_EXTENSIONS.some(extension => basename.endsWith(extension))) {
+      return lowerPath.includes('transcript') || this.looksLikeTranscriptXml(await this.sniff(file));
+    }
+
+    // Anything else is kept only if its content gives it away
+    if (basename.includes('.') && !basename.includes('transcript')) return false;
+    const head = await this.sniff(file);
+    return this.looksLikeTranscriptXml(head) || head.startsWith('WEBVTT') ||
+      (/^\s*[{[]/.test(head) && /"(transcript|segments)"/.test(head));
+  }
+
+  private static looksLikeTranscriptXml(head: string): boolean {
+    return /<tt[\s>]/.test(head) || /<key>\s*transcript/i.test(head);
+  }
+
+  private static async sniff(file: File): Promise<string> {
+    try {
+      return (await file.slice(0, SNIFF_BYTES).text()).replace(/^\uFEFF/, '');
+    } catch {
+      return '';
+    }
+  }
+
+  private static async walk(entry: FileSystemEntry, files: File[]): Promise<void> {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      files.push(this.withPath(file, entry.fullPath.replace(/^\//, '')));
+      return;
+    }
+
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries hands back directories in batches until it returns an empty one
+      let batch: FileSystemEntry[];
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        for (const child of batch) {
+          await this.walk(child, files);
+        }
+      } while (batch.length > 0);
+    }
+  }
+
+  // Files keep their path inside the folder as their name, so reports and format checks can see it
+  private static withPath(file: File, path: string): File {
+    if (file.name === path) return file;
+    return new File([file], path, { type: file.type, lastModified: file.lastModified });
+  }
+}
@@ -0,0 +1,213 @@
+import { Episode, TranscriptSegment } from '../types/transcript';
+
+export interface IndexedDocument {
+  episodeId: string;
+  segment: TranscriptSegment;
+  length: number;
+  terms: string[];
+}
+
+// BM25 tuning constants - the usual defaults from the literature
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Share of document IDs left empty by removed episodes before the rest are renumbered
+const COMPACT_THRESHOLD = 0.5;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+/**
+ * Term -> segment postings for every transcript segment in the library.
+ * Each segment is one document; term positions are kept so phrase queries
+ * can check adjacency.
+ */
+export class InvertedIndex {
+  private documents: (IndexedDocument | undefined)[] = [];
+  private postings = new Map<string, Map<number, number[]>>();
+  private episodeDocuments = new Map<string, number[]>();
+  private sortedTerms: string[] | null = [];
+  private totalLength = 0;
+  private documentCount = 0;
+
+  static tokenize(text: string): string[] {
+    return this.splitTokens(text.toLowerCase());
+  }
+
+  static splitTokens(text: string): string[] {
+    return (text.match(TOKEN_PATTERN) || []).map(token => token.replace(/’/g, "'"));
+  }
+
+  hasEpisode(episodeId: string): boolean {
+    return this.episodeDocuments.has(episodeId);
+  }
+
+  addEpisode(episode: Episode) {
+    if (this.hasEpisode(episode.id)) {
+      this.removeEpisode(episode.id);
+    }
+
+    const docIds: number[] = [];
+
+    episode.transcript.forEach(segment => {
+      const tokens = InvertedIndex.tokenize(segment.text);
+      const docId = this.documents.length;
+      const uniqueTerms = new Set<string>();
+
+      tokens.forEach((token, position) => {
+        let termPostings = this.postings.get(token);
+        if (!termPostings) {
+          termPostings = new Map();
+          this.postings.set(token, termPostings);
+          this.sortedTerms = null;
+        }
+
+        const positions = termPostings.get(docId);
+        if (positions) {
+          positions.push(position);
+        } else {
+          termPostings.set(docId, [position]);
+        }
+        uniqueTerms.add(token);
+      });
+
+      this.documents.push({ episodeId: episode.id, segment, length: tokens.length, terms: Array.from(uniqueTerms) });
+      this.totalLength += tokens.length;
+      this.documentCount++;
+      docIds.push(docId);
+    });
+
+    this.episodeDocuments.set(episode.id, docIds);
+  }
+
+  removeEpisode(episodeId: string) {
+    const docIds = this.episodeDocuments.get(episodeId);
+    if (!docIds) return;
+
+    docIds.forEach(docId => {
+      const document = this.documents[docId];
+      if (!document) return;
+
+      document.terms.forEach(term => {
+        const termPostings = this.postings.get(term);
+        termPostings?.delete(docId);
+        if (termPostings && termPostings.size === 0) {
+          this.postings.delete(term);
+          this.sortedTerms = null;
+        }
+      });
+
+      this.totalLength -= document.length;
+      this.documentCount--;
+      this.documents[docId] = undefined;
+    });
+
+    this.episodeDocuments.delete(episodeId);
+
+    if (this.documents.length - this.documentCount > this.documents.length * COMPACT_THRESHOLD) {
+      this.compact();
+    }
+  }
+
+  clear() {
+    this.documents = [];
+    this.postings.clear();
+    this.episodeDocuments.clear();
+    this.sortedTerms = [];
+    this.totalLength = 0;
+    this.documentCount = 0;
+  }
+
+  getDocument(docId: number): IndexedDocument | undefined {
+    return this.documents[docId];
+  }
+
+  getDocumentIds(): Set<number> {
+    const docIds = new Set<number>();
+    this.documents.forEach((document, docId) => {
+      if (document) docIds.add(docId);
+    });
+    return docIds;
+  }
+
+  getPostings(term: string): Map<number, number[]> | undefined {
+    return this.postings.get(term);
+  }
+
+  /**
+   * Returns every indexed term starting with the prefix, using binary search
+   * over a lazily sorted term list.
+   */
+  expandPrefix(prefix: string): string[] {
+    const terms = this.getSortedTerms();
+    let low = 0;
+    let high = terms.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (terms[mid] < prefix) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      matches.push(terms[i]);
+    }
+    return matches;
+  }
+
+  getTerms(): string[] {
+    return this.getSortedTerms();
+  }
+
+  /**
+   * BM25 contribution of one term to one document.
+   */
+  scoreTerm(term: string, docId: number): number {
+    const termPostings = this.postings.get(term);
+    const positions = termPostings?.get(docId);
+    const document = this.documents[docId];
+    if (!termPostings || !positions || !document) return 0;
+
+    const documentFrequency = termPostings.size;
+    const idf = Math.log(1 + (this.documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    const averageLength = this.documentCount > 0 ? this.totalLength / this.documentCount : 1;
+    const termFrequency = positions.length;
+
+    return idf * (termFrequency * (BM25_K1 + 1)) /
+      (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (document.length / averageLength)));
+  }
+
+  /**
+   * Renumbers the remaining documents in order, dropping the holes that
+   * re-indexed and removed episodes leave behind.
+   */
+  private compact() {
+    const renumbered = new Map<number, number>();
+    const documents: IndexedDocument[] = [];
+    this.documents.forEach((document, docId) => {
+      if (!document) return;
+      renumbered.set(docId, documents.length);
+      documents.push(document);
+    });
+
+    this.postings.forEach((termPostings, term) => {
+      const compacted = new Map<number, number[]>();
+      termPostings.forEach((positions, docId) => compacted.set(renumbered.get(docId)!, positions));
+      this.postings.set(term, compacted);
+    });
+    this.episodeDocuments.forEach((docIds, episodeId) => {
+      this.episodeDocuments.set(episodeId, docIds.map(docId => renumbered.get(docId)!));
+    });
+    this.documents = documents;
+  }
+
+  private getSortedTerms(): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+    return this.sortedTerms;
+  }
+}
@@ -0,0 +1,164 @@
+import { Episode, TranscriptSegment, TranscriptWord } from '../../types/transcript';
+import { SegmentTiming } from '../segmentTiming';
+import { EpisodeIdentity } from '../episodeIdentity';
+
+/**
+ * Helpers the parser plugins share for turning loosely structured data into
+ * episodes with stable IDs.
+ */
+export class EpisodeBuilder {
+  static create(episode: Omit<Episode, 'id'>): Episode {
+    return { id: EpisodeIdentity.createId(episode), ...episode };
+  }
+
+  /**
+   * An episode titled after its file, for formats that carry no metadata.
+   */
+  static fromSegments(segments: TranscriptSegment[], filename: string, duration?: number): Episode {
+    return this.create({
+      title: this.titleFromFilename(filename),
+      podcastTitle: 'Imported Podcast',
+      duration: duration || this.duration(segments),
+      publishDate: new Date().toISOString(),
+      transcript: segments
+    });
+  }
+
+  static titleFromFilename(filename: string): string {
+    // ZIP entries carry their folder path; Apple's cache nests each transcript in its own folder
+    const basename = filename.split('/').pop() || filename;
+    return basename.replace(/\.[^/.]+$/, '');
+  }
+
+  // Apple's TTML cache names files after the episode's store ID, e.g. transcript_1000651234567.ttml
+  static storeIdFromFilename(filename: string): string | undefined {
+    const match = /transcript_(\d+)/.exec(filename);
+    return match ? `apple-store-${match[1]}` : undefined;
+  }
+
+  static duration(segments: TranscriptSegment[]): number {
+    if (segments.length === 0) return 0;
+    return SegmentTiming.getTotalDuration(segments);
+  }
+
+  static stringField(value: unknown): string | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    return String(value).trim() || undefined;
+  }
+
+  static extractSegments(data: any): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    // Handle various segment structures
+    const transcriptData = data.transcript ||
+                          data.segments ||
+                          data.lines ||
+                          data.transcriptSegments ||
+                          data.items ||
+                          [];
+
+    console.log(`Extracting segments from data with ${Array.isArray(transcriptData) ? transcriptData.length : 0} items`);
+
+    if (Array.isArray(transcriptData)) {
+      transcriptData.forEach((segment: any, index: number) => {
+        let text = '';
+        let timestamp = 0;
+        let endTime: number | undefined = undefined;
+        let speaker = undefined;
+        let words: TranscriptWord[] | undefined = undefined;
+
+        if (typeof segment === 'string') {
+          text = segment;
+          timestamp = index * 5; // Approximate timing
+        } else if (typeof segment === 'object' && segment !== null) {
+          // Handle various property names for text content
+          text = segment.text ||
+                 segment.content ||
+                 segment.transcript ||
+                 segment.body ||
+                 segment.message ||
+                 '';
+
+          // Handle various property names for timestamp
+          timestamp = parseFloat(segment.timestamp ||
+                                segment.time ||
+                                segment.start ||
+                                segment.startTime ||
+                                index * 5);
+
+          endTime = this.parseEndTime(segment, timestamp);
+          words = this.extractWords(segment);
+
+          // Handle speaker information
+          speaker = segment.speaker ||
+                   segment.name ||
+                   segment.author ||
+                   undefined;
+        }
+
+        if (text && text.trim()) {
+          segments.push({
+            id: `segment-${index}`,
+            text: text.trim(),
+            timestamp,
+            endTime,
+            speaker,
+            confidence: segment.confidence,
+            words
+          });
+        }
+      });
+    }
+
+    console.log(`Extracted ${segments.length} segments`);
+    return SegmentTiming.inferEndTimes(segments, parseFloat(data.duration) || undefined);
+  }
+
+  static parseEndTime(segment: Record<string, unknown>, timestamp?: number): number | undefined {
+    // Keys from plists arrive lowercased, so check both spellings
+    const end = segment.endTime ?? segment.endtime ?? segment.end_time ?? segment.end ?? segment.endTimestamp;
+    if (end !== undefined && end !== null && end !== '') {
+      const parsed = parseFloat(String(end));
+      if (!isNaN(parsed)) return parsed;
+    }
+
+    const duration = parseFloat(String(segment.duration ?? segment.dur ?? ''));
+    if (timestamp !== undefined && !isNaN(duration)) {
+      return timestamp + duration;
+    }
+
+    return undefined;
+  }
+
+  private static extractWords(segment: Record<string, unknown>): TranscriptWord[] | undefined {
+    // Whisper, Deepgram and most ASR exports attach a per-word timing array to each segment
+    const wordData = segment.words || segment.wordTimings || segment.tokens || segment.items;
+    if (!Array.isArray(wordData)) return undefined;
+
+    const words: TranscriptWord[] = [];
+    wordData.forEach((word: Record<string, unknown>) => {
+      if (typeof word !== 'object' || word === null) return;
+
+      const text = String(word.punctuated_word ?? word.text ?? word.word ?? word.content ?? '').trim();
+      const start = parseFloat(String(word.start ?? word.startTime ?? word.begin ?? word.time ?? ''));
+      if (!text || isNaN(start)) return;
+
+      const parsedEnd = parseFloat(String(word.end ?? word.endTime ?? ''));
+      const confidence = parseFloat(String(word.confidence ?? word.probability ?? word.score ?? ''));
+
+      words.push({
+        text,
+        start,
+        end: isNaN(parsedEnd) ? start : parsedEnd,
+        confidence: isNaN(confidence) ? undefined : confidence
+      });
+    });
+
+    words.forEach((word, index) => {
+      const next = words[index + 1];
+      if (word.end <= word.start && next) word.end = next.start;
+    });
+
+    return words.length > 0 ? words : undefined;
+  }
+}
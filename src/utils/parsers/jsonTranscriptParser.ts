@@ -0,0 +1,166 @@
+import { Episode } from '../../types/transcript';
+import { EpisodeBuilder } from './episodeBuilder';
+import { ParserOutput, ParserSource, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * JSON transcripts in the many shapes exporters produce: a single episode, a
+ * container of episodes, Apple Podcasts records or a bare array of segments.
+ */
+export class JsonTranscriptParser implements TranscriptParserPlugin {
+  id = 'json';
+  label = 'JSON';
+  priority = 50;
+
+  sniff(fileName: string, head: string): number {
+    const looksLikeJson = /^\s*[{[]/.test(head);
+    if (fileName.toLowerCase().endsWith('.json')) return looksLikeJson ? 0.9 : 0.5;
+    if (!looksLikeJson) return 0;
+    return /"(transcript|segments|episodes)"/.test(head) ? 0.7 : 0.5;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    return { kind: 'episodes', episodes: this.parseContent(await source.text(), source.fileName) };
+  }
+
+  /**
+   * Returns every episode in the file - one for a single transcript, or all of
+   * them for a container such as `{ podcastTitle, episodes: [...] }` or a bare
+   * array of episodes. Episodes in a container inherit its podcast title.
+   */
+  private parseContent(content: string, filename: string): Episode[] {
+    try {
+      const data = JSON.parse(content);
+      console.log(`Parsing JSON content from ${filename}:`, Object.keys(data));
+
+      // Handle Apple Podcasts specific structures
+      if (data.MTEpisode || data.episode) {
+        return this.listOf(this.extractApplePodcastEpisode(data, filename));
+      }
+
+      // Handle various JSON structures that might contain podcast data
+      if (data.episodes && Array.isArray(data.episodes)) {
+        // Multiple episodes format
+        const episodes = this.extractEpisodesFromContainer(data.episodes, filename, this.containerPodcastTitle(data));
+        if (episodes.length > 0) return episodes;
+      }
+
+      if (data.transcript || data.segments || data.lines) {
+        // Single episode format
+        return this.listOf(this.extractEpisodeFromData(data, filename));
+      }
+
+      if (Array.isArray(data)) {
+        // Array of transcript segments or episodes
+        if (data.length > 0) {
+          if (data[0].text || data[0].content) {
+            // Array of transcript segments
+            return this.listOf(this.createEpisodeFromSegments(data, filename));
+          } else if (data[0].transcript || data[0].segments) {
+            // Array of episodes
+            return this.extractEpisodesFromContainer(data, filename);
+          }
+        }
+      }
+
+      // Look for any property that might contain transcript data
+      for (const [key, value] of Object.entries(data)) {
+        if (Array.isArray(value) && value.length > 0) {
+          const firstItem = value[0];
+          if (typeof firstItem === 'object' && (firstItem.text || firstItem.content)) {
+            console.log(`Found potential transcript data in property: ${key}`);
+            return this.listOf(this.createEpisodeFromSegments(value, filename));
+          }
+        }
+      }
+
+    } catch (error) {
+      console.error('JSON parsing error:', error);
+    }
+
+    return [];
+  }
+
+  private listOf(episode: Episode | null): Episode[] {
+    return episode ? [episode] : [];
+  }
+
+  private containerPodcastTitle(data: Record<string, unknown>): string | undefined {
+    const podcast = data.podcast;
+    const candidates = [
+      data.podcastTitle,
+      data.showTitle,
+      podcast && typeof podcast === 'object' ? (podcast as Record<string, unknown>).title : podcast,
+      data.title
+    ];
+    return candidates.find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  }
+
+  private extractEpisodesFromContainer(items: unknown[], filename: string, podcastTitle?: string): Episode[] {
+    const baseTitle = EpisodeBuilder.titleFromFilename(filename);
+    const episodes: Episode[] = [];
+
+    items.forEach((item, index) => {
+      if (!item || typeof item !== 'object') return;
+      // Untitled episodes are numbered so they don't all share the file's name
+      const fallbackTitle = items.length > 1 ? `${baseTitle} (${index + 1})` : baseTitle;
+      const episode = this.extractEpisodeFromData(item, fallbackTitle, podcastTitle);
+      if (episode) episodes.push(episode);
+    });
+
+    console.log(`Found ${episodes.length} of ${items.length} episodes in ${filename}`);
+    return episodes;
+  }
+
+  private extractApplePodcastEpisode(data: any, filename: string): Episode | null {
+    const episodeData = data.MTEpisode || data.episode || data;
+
+    // Look for transcript data in Apple Podcasts format
+    const transcriptData = episodeData.transcript ||
+                          episodeData.transcriptSegments ||
+                          episodeData.segments ||
+                          episodeData.lines;
+
+    if (!transcriptData) {
+      console.log('No transcript data found in Apple Podcasts format');
+      return null;
+    }
+
+    const segments = EpisodeBuilder.extractSegments({ segments: transcriptData });
+    if (segments.length === 0) return null;
+
+    return EpisodeBuilder.create({
+      guid: EpisodeBuilder.stringField(episodeData.guid ?? episodeData.episodeGuid),
+      title: episodeData.title || episodeData.name || filename,
+      podcastTitle: episodeData.podcastTitle || episodeData.showTitle || episodeData.podcast || 'Unknown Podcast',
+      duration: episodeData.duration || EpisodeBuilder.duration(segments),
+      publishDate: episodeData.publishDate || episodeData.date || episodeData.pubDate || new Date().toISOString(),
+      description: episodeData.description || episodeData.summary,
+      transcript: segments
+    });
+  }
+
+  private extractEpisodeFromData(data: any, filename: string, podcastTitle?: string): Episode | null {
+    console.log('Extracting episode from data:', Object.keys(data));
+    const segments = EpisodeBuilder.extractSegments(data);
+    if (segments.length === 0) {
+      console.log('No segments found in episode data');
+      return null;
+    }
+
+    return EpisodeBuilder.create({
+      guid: EpisodeBuilder.stringField(data.guid ?? data.episodeGuid),
+      title: data.title || data.episodeTitle || data.name || filename,
+      podcastTitle: data.podcastTitle || data.showTitle || data.podcast || podcastTitle || 'Unknown Podcast',
+      duration: data.duration || EpisodeBuilder.duration(segments),
+      publishDate: data.publishDate || data.date || data.pubDate || new Date().toISOString(),
+      description: data.description || data.summary,
+      transcript: segments
+    });
+  }
+
+  private createEpisodeFromSegments(segments: any[], filename: string): Episode | null {
+    const transcriptSegments = EpisodeBuilder.extractSegments({ segments });
+    if (transcriptSegments.length === 0) return null;
+    return EpisodeBuilder.fromSegments(transcriptSegments, filename);
+  }
+}
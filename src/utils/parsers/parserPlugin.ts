@@ -0,0 +1,80 @@
+import { Episode, LibraryEpisodeRecord } from '../../types/transcript';
+
+// How much of a file parsers get to look at when sniffing
+export const SNIFF_LENGTH = 4096;
+
+/**
+ * A file, or an entry inside an archive, as seen by parser plugins. Contents are
+ * read lazily and only once, so sniffing a large file stays cheap.
+ */
+export interface ParserSource {
+  fileName: string;
+  // The start of the file as text, with any byte order mark removed
+  head(): Promise<string>;
+  text(): Promise<string>;
+  bytes(): Promise<Uint8Array>;
+}
+
+export type ParserOutput =
+  | { kind: 'episodes'; episodes: Episode[] }
+  // Metadata for episodes parsed elsewhere, such as the Podcasts app's library database
+  | { kind: 'library'; records: LibraryEpisodeRecord[] }
+  // Files to run through the registry in turn
+  | { kind: 'archive'; entries: ParserSource[] };
+
+export interface TranscriptParserPlugin {
+  id: string;
+  // Shown in import reports, e.g. "TTML"
+  label: string;
+  // Breaks ties between plugins that are equally confident
+  priority: number;
+  /**
+   * How likely this plugin is to understand the file, from 0 (not at all) to 1
+   * (certain), judged from its name and the start of its content.
+   */
+  sniff(fileName: string, head: string): number;
+  parse(source: ParserSource): Promise<ParserOutput>;
+}
+
+/**
+ * Builds `ParserSource`s over the different places file contents come from.
+ */
+export class ParserSources {
+  static fromBlob(fileName: string, blob: Blob): ParserSource {
+    let text: Promise<string> | null = null;
+    return {
+      fileName,
+      head: async () => this.stripBom(await blob.slice(0, SNIFF_LENGTH).text()),
+      text: () => (text ??= blob.text().then(content => this.stripBom(content))),
+      bytes: async () => new Uint8Array(await blob.arrayBuffer())
+    };
+  }
+
+  static fromText(fileName: string, content: string): ParserSource {
+    const text = this.stripBom(content);
+    return {
+      fileName,
+      head: async () => text.slice(0, SNIFF_LENGTH),
+      text: async () => text,
+      bytes: async () => new TextEncoder().encode(text)
+    };
+  }
+
+  // For contents that have to be unpacked first, such as ZIP entries
+  static fromLoader(fileName: string, load: () => Promise<Uint8Array>): ParserSource {
+    let bytes: Promise<Uint8Array> | null = null;
+    let text: Promise<string> | null = null;
+    const readBytes = () => (bytes ??= load());
+    const readText = () => (text ??= readBytes().then(data => this.stripBom(new TextDecoder().decode(data))));
+    return {
+      fileName,
+      head: async () => (await readText()).slice(0, SNIFF_LENGTH),
+      text: readText,
+      bytes: readBytes
+    };
+  }
+
+  private static stripBom(content: string): string {
+    return content.replace(/^\uFEFF/, '');
+  }
+}
@@ -0,0 +1,72 @@
+import { JsonTranscriptParser } from './jsonTranscriptParser';
+import { TranscriptParserPlugin } from './parserPlugin';
+import { PlistTranscriptParser } from './plistTranscriptParser';
+import { PodcastIndexJsonParser } from './podcastIndexJsonParser';
+import { PodcastLibraryParser } from './podcastLibraryParser';
+import { SubtitleTranscriptParser } from './subtitleTranscriptParser';
+import { TextTranscriptParser } from './textTranscriptParser';
+import { TtmlTranscriptParser } from './ttmlTranscriptParser';
+import { ZipArchiveParser } from './zipArchiveParser';
+
+export interface RankedParser {
+  plugin: TranscriptParserPlugin;
+  confidence: number;
+}
+
+/**
+ * The parser plugins an import consults. Each plugin sniffs a file and says how
+ * confident it is that it can read it; the import tries them from most to least
+ * confident until one finds transcripts.
+ */
+export class ParserRegistry {
+  private plugins: TranscriptParserPlugin[] = [];
+
+  static createDefault(): ParserRegistry {
+    return new ParserRegistry()
+      .register(new ZipArchiveParser())
+      .register(new PodcastLibraryParser())
+      .register(new TtmlTranscriptParser())
+      .register(new SubtitleTranscriptParser())
+      .register(new PodcastIndexJsonParser())
+      .register(new JsonTranscriptParser())
+      .register(new PlistTranscriptParser())
+      .register(new TextTranscriptParser());
+  }
+
+  /**
+   * Adds a plugin, replacing any registered under the same ID.
+   */
+  register(plugin: TranscriptParserPlugin): this {
+    this.plugins = [...this.plugins.filter(existing => existing.id !== plugin.id), plugin];
+    return this;
+  }
+
+  unregister(id: string) {
+    this.plugins = this.plugins.filter(plugin => plugin.id !== id);
+  }
+
+  getPlugins(): TranscriptParserPlugin[] {
+    return [...this.plugins];
+  }
+
+  /**
+   * Every plugin that might read the file, best first. Equally confident
+   * plugins are ordered by priority.
+   */
+  rank(fileName: string, head: string): RankedParser[] {
+    return this.plugins
+      .map(plugin => ({ plugin, confidence: this.sniff(plugin, fileName, head) }))
+      .filter(candidate => candidate.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence || b.plugin.priority - a.plugin.priority);
+  }
+
+  private sniff(plugin: TranscriptParserPlugin, fileName: string, head: string): number {
+    try {
+      return Math.min(1, Math.max(0, plugin.sniff(fileName, head) || 0));
+    } catch (error) {
+      // A broken plugin shouldn't stop the others from reading the file
+      console.error(`Parser ${plugin.id} failed to sniff ${fileName}:`, error);
+      return 0;
+    }
+  }
+}
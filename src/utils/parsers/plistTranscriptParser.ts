@@ -0,0 +1,131 @@
+import { TranscriptSegment } from '../../types/transcript';
+import { XmlDocumentParser, XmlElement } from '../xmlDocumentParser';
+import { EpisodeBuilder } from './episodeBuilder';
+import { ParserOutput, ParserSource, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * Property lists and other XML, read as dictionaries of segments or, failing
+ * that, as the longer strings they contain.
+ */
+export class PlistTranscriptParser implements TranscriptParserPlugin {
+  id = 'plist';
+  label = 'Property list';
+  priority = 40;
+
+  sniff(fileName: string, head: string): number {
+    if (/<(!DOCTYPE\s+)?plist[\s>]/.test(head)) return 0.85;
+    const lowerName = fileName.toLowerCase();
+    if (lowerName.endsWith('.plist')) return 0.7;
+    if (lowerName.endsWith('.xml') || XmlDocumentParser.looksLikeXml(head)) return 0.4;
+    return 0;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    const segments = this.parseSegments(await source.text(), source.fileName);
+    return {
+      kind: 'episodes',
+      episodes: segments ? [EpisodeBuilder.fromSegments(segments, source.fileName)] : []
+    };
+  }
+
+  private parseSegments(content: string, filename: string): TranscriptSegment[] | null {
+    try {
+      console.log(`Parsing PLIST content from ${filename}`);
+      const root = XmlDocumentParser.parse(content);
+
+      // Look for transcript data in plist structure
+      const transcriptData = this.extractTranscriptFromPlist(root);
+      if (transcriptData && transcriptData.length > 0) {
+        return EpisodeBuilder.extractSegments({ segments: transcriptData });
+      }
+
+      // Try to extract any text content that might be transcript data
+      const allTextNodes = root.getElements('string');
+      const textSegments: TranscriptSegment[] = [];
+
+      allTextNodes.forEach((node, index) => {
+        const text = node.textContent?.trim();
+        if (text && text.length > 20) { // Filter out short metadata strings
+          textSegments.push({
+            id: `segment-${index}`,
+            text,
+            timestamp: index * 5,
+          });
+        }
+      });
+
+      if (textSegments.length > 0) {
+        return EpisodeBuilder.extractSegments({ segments: textSegments });
+      }
+
+    } catch (error) {
+      console.error('Plist parsing error:', error);
+    }
+
+    return null;
+  }
+
+  private extractTranscriptFromPlist(root: XmlElement): TranscriptSegment[] | null {
+    const segments: TranscriptSegment[] = [];
+
+    // Look for various plist structures that might contain transcript data
+    const dictElements = root.getElements('dict');
+
+    dictElements.forEach((dict, dictIndex) => {
+      const keys = dict.getElements('key');
+      const values = dict.getElements('string', 'real', 'integer');
+
+      let segmentData: any = {};
+
+      for (let i = 0; i < keys.length && i < values.length; i++) {
+        const key = keys[i].textContent?.toLowerCase();
+        const value = values[i].textContent;
+
+        if (key && value) {
+          segmentData[key] = value;
+        }
+      }
+
+      // Check if this dict contains transcript-like data
+      if (segmentData.text || segmentData.content || segmentData.transcript) {
+        segments.push({
+          id: `segment-${dictIndex}`,
+          text: segmentData.text || segmentData.content || segmentData.transcript,
+          timestamp: parseFloat(segmentData.timestamp || segmentData.time || dictIndex * 5),
+          endTime: EpisodeBuilder.parseEndTime(segmentData),
+          speaker: segmentData.speaker || segmentData.name
+        });
+      }
+    });
+
+    // If no structured data found, try to extract any meaningful text
+    if (segments.length === 0) {
+      const textElements = root.getElements('string');
+      textElements.forEach((element, index) => {
+        const text = element.textContent?.trim();
+        if (text && text.length > 20 && this.looksLikeTranscriptText(text)) {
+          segments.push({
+            id: `segment-${index}`,
+            text,
+            timestamp: index * 5,
+          });
+        }
+      });
+    }
+
+    return segments.length > 0 ? segments : null;
+  }
+
+  private looksLikeTranscriptText(text: string): boolean {
+    // Check if text looks like spoken content rather than metadata
+    const metadataPatterns = [
+      /^https?:\/\//,  // URLs
+      /^\d+$/,         // Just numbers
+      /^[A-Z_]+$/,     // All caps (likely constants)
+      /^\w+\.\w+$/,    // File extensions
+    ];
+
+    return !metadataPatterns.some(pattern => pattern.test(text)) &&
+           text.split(' ').length > 3; // Has multiple words
+  }
+}
@@ -0,0 +1,84 @@
+import { Episode, TranscriptSegment } from '../../types/transcript';
+import { SegmentTiming } from '../segmentTiming';
+import { EpisodeBuilder } from './episodeBuilder';
+import { ParserOutput, ParserSource, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * The Podcasting 2.0 JSON transcript format that feeds link with
+ * `<podcast:transcript type="application/json">`:
+ * `{ version, segments: [{ speaker, startTime, endTime, body }] }`.
+ */
+export class PodcastIndexJsonParser implements TranscriptParserPlugin {
+  id = 'podcast-index-json';
+  label = 'Podcasting 2.0 JSON';
+  priority = 60;
+
+  sniff(fileName: string, head: string): number {
+    if (!/^\s*\{/.test(head) || !head.includes('"segments"')) return 0;
+    if (/"body"\s*:/.test(head) && /"startTime"\s*:/.test(head)) return 0.95;
+    // Segments may start beyond the sniffed head, but a version next to them is telling
+    return /"version"\s*:/.test(head) && fileName.toLowerCase().endsWith('.json') ? 0.6 : 0;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    const episode = this.parseContent(await source.text(), source.fileName);
+    return { kind: 'episodes', episodes: episode ? [episode] : [] };
+  }
+
+  private parseContent(content: string, filename: string): Episode | null {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      console.error('JSON parsing error:', error);
+      return null;
+    }
+    if (!data || typeof data !== 'object' || !Array.isArray((data as Record<string, unknown>).segments)) return null;
+
+    // Top-level fields beyond the spec's are kept so an export can write them back
+    const { version, segments: items, ...metadata } = data as Record<string, unknown>;
+    const segments = this.extractSegments(items as unknown[]);
+    // Anything else is one of the looser shapes the generic JSON parser handles
+    if (segments.length === 0) return null;
+
+    console.log(`Parsed ${segments.length} Podcasting 2.0 segments from ${filename}`);
+
+    // The spec has no episode metadata, but some tools add a title alongside it
+    return EpisodeBuilder.create({
+      title: EpisodeBuilder.stringField(metadata.title) || EpisodeBuilder.titleFromFilename(filename),
+      podcastTitle: EpisodeBuilder.stringField(metadata.podcastTitle) || 'Imported Podcast',
+      duration: EpisodeBuilder.duration(segments),
+      publishDate: new Date().toISOString(),
+      transcriptFormat: {
+        format: 'podcast-index-json',
+        version: EpisodeBuilder.stringField(version),
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+      },
+      transcript: segments
+    });
+  }
+
+  private extractSegments(items: unknown[]): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    items.forEach((item, index) => {
+      if (!item || typeof item !== 'object') return;
+      const { body, startTime, endTime, speaker } = item as Record<string, unknown>;
+
+      const text = typeof body === 'string' ? body.trim() : '';
+      const start = parseFloat(String(startTime));
+      if (!text || isNaN(start)) return;
+
+      const end = parseFloat(String(endTime));
+      segments.push({
+        id: `segment-${index}`,
+        text,
+        timestamp: start,
+        endTime: isNaN(end) || end < start ? undefined : end,
+        speaker: typeof speaker === 'string' && speaker.trim() ? speaker.trim() : undefined
+      });
+    });
+
+    return SegmentTiming.inferEndTimes(segments);
+  }
+}
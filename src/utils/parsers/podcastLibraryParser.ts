@@ -0,0 +1,21 @@
+import { PodcastLibrary } from '../podcastLibrary';
+import { ParserOutput, ParserSource, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * The Podcasts app's MTLibrary.sqlite, which has the metadata its transcript cache lacks.
+ */
+export class PodcastLibraryParser implements TranscriptParserPlugin {
+  id = 'podcast-library';
+  label = 'Podcasts library';
+  priority = 90;
+
+  sniff(fileName: string, head: string): number {
+    if (head.startsWith('SQLite format 3')) return 1;
+    return PodcastLibrary.isLibraryFile(fileName) ? 0.9 : 0;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    console.log(`SQLite file detected: ${source.fileName}`);
+    return { kind: 'library', records: await PodcastLibrary.read(await source.bytes()) };
+  }
+}
@@ -0,0 +1,30 @@
+import { SubtitleParser } from '../subtitleParser';
+import { EpisodeBuilder } from './episodeBuilder';
+import { ParserOutput, ParserSource, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * WebVTT and SRT captions.
+ */
+export class SubtitleTranscriptParser implements TranscriptParserPlugin {
+  id = 'subtitles';
+  label = 'WebVTT/SRT';
+  priority = 70;
+
+  sniff(fileName: string, head: string): number {
+    if (SubtitleParser.isWebVtt(head) || SubtitleParser.isSrt(head)) return 0.95;
+    return SubtitleParser.detectFormat(fileName, head) ? 0.8 : 0;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    const content = await source.text();
+    const format = SubtitleParser.detectFormat(source.fileName, content);
+    if (!format) return { kind: 'episodes', episodes: [] };
+
+    console.log(`Parsing ${format.toUpperCase()} content from ${source.fileName}`);
+    const parsed = new SubtitleParser().parse(content, format);
+    return {
+      kind: 'episodes',
+      episodes: parsed ? [EpisodeBuilder.fromSegments(parsed.segments, source.fileName, parsed.duration)] : []
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { TranscriptSegment } from '../../types/transcript';
+import { SegmentTiming } from '../segmentTiming';
+import { XmlDocumentParser } from '../xmlDocumentParser';
+import { EpisodeBuilder } from './episodeBuilder';
+import { ParserOutput, ParserSource, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * The last resort: plain text, one segment per line with approximate timings.
+ */
+export class TextTranscriptParser implements TranscriptParserPlugin {
+  id = 'text';
+  label = 'Plain text';
+  priority = 0;
+
+  sniff(fileName: string, head: string): number {
+    // Binary data, and structured files other parsers gave up on, aren't prose
+    if (head.includes('\u0000') || /^\s*[{[]/.test(head) || XmlDocumentParser.looksLikeXml(head)) return 0;
+    if (fileName.toLowerCase().includes('transcript')) return 0.3;
+    return this.looksLikeTranscript(head) ? 0.2 : 0.1;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    const content = await source.text();
+    const named = source.fileName.toLowerCase().includes('transcript');
+    if (!named && !(content.length > 100 && this.looksLikeTranscript(content))) {
+      return { kind: 'episodes', episodes: [] };
+    }
+
+    const segments = this.segmentsFromText(content);
+    return {
+      kind: 'episodes',
+      episodes: segments.length > 0 ? [EpisodeBuilder.fromSegments(segments, source.fileName)] : []
+    };
+  }
+
+  private looksLikeTranscript(content: string): boolean {
+    // Check if content looks like transcript data
+    const transcriptIndicators = [
+      'transcript',
+      'speaker',
+      'timestamp',
+      'time',
+      'text',
+      'dialogue',
+      'conversation'
+    ];
+
+    const lowerContent = content.toLowerCase();
+    const indicatorCount = transcriptIndicators.filter(indicator =>
+      lowerContent.includes(indicator)
+    ).length;
+
+    return indicatorCount >= 2;
+  }
+
+  private segmentsFromText(content: string): TranscriptSegment[] {
+    // Split content into segments based on common patterns
+    const lines = content.split('\n').filter(line => line.trim().length > 0);
+    const segments: TranscriptSegment[] = [];
+
+    lines.forEach((line, index) => {
+      const trimmedLine = line.trim();
+      if (trimmedLine.length > 10) { // Filter out very short lines
+        segments.push({
+          id: `segment-${index}`,
+          text: trimmedLine,
+          timestamp: index * 5, // Approximate timing
+        });
+      }
+    });
+    return SegmentTiming.inferEndTimes(segments);
+  }
+}
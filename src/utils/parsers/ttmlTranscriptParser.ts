@@ -0,0 +1,36 @@
+import { TtmlParser } from '../ttmlParser';
+import { EpisodeBuilder } from './episodeBuilder';
+import { ParserOutput, ParserSource, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * TTML, the format of Apple Podcasts' transcript cache.
+ */
+export class TtmlTranscriptParser implements TranscriptParserPlugin {
+  id = 'ttml';
+  label = 'TTML';
+  priority = 80;
+
+  sniff(fileName: string, head: string): number {
+    if (TtmlParser.isTtmlContent(head)) return 0.95;
+    // The cache's files are named like transcript_123.ttml-123
+    return /\.ttml(-\d+)?$/i.test(fileName) ? 0.8 : 0;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    console.log(`Parsing TTML content from ${source.fileName}`);
+    const parsed = new TtmlParser().parse(await source.text());
+    if (!parsed) return { kind: 'episodes', episodes: [] };
+
+    return {
+      kind: 'episodes',
+      episodes: [EpisodeBuilder.create({
+        guid: EpisodeBuilder.storeIdFromFilename(source.fileName),
+        title: EpisodeBuilder.titleFromFilename(source.fileName),
+        podcastTitle: 'Imported Podcast',
+        duration: parsed.duration || EpisodeBuilder.duration(parsed.segments),
+        publishDate: new Date().toISOString(),
+        transcript: parsed.segments
+      })]
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import JSZip from 'jszip';
+import { ParserOutput, ParserSource, ParserSources, TranscriptParserPlugin } from './parserPlugin';
+
+/**
+ * ZIP archives, whose entries are handed back to the registry one by one.
+ */
+export class ZipArchiveParser implements TranscriptParserPlugin {
+  id = 'zip';
+  label = 'ZIP archive';
+  priority = 100;
+
+  sniff(fileName: string, head: string): number {
+    if (head.startsWith('PK\u0003\u0004')) return 1;
+    return fileName.toLowerCase().endsWith('.zip') ? 0.9 : 0;
+  }
+
+  async parse(source: ParserSource): Promise<ParserOutput> {
+    const contents = await new JSZip().loadAsync(await source.bytes());
+    console.log(`ZIP file contains ${Object.keys(contents.files).length} files`);
+
+    const entries = Object.entries(contents.files)
+      .filter(([, zipEntry]) => !zipEntry.dir)
+      .map(([filename, zipEntry]) => ParserSources.fromLoader(filename, () => zipEntry.async('uint8array')));
+    return { kind: 'archive', entries };
+  }
+}
@@ -0,0 +1,155 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { Episode, LibraryEpisodeRecord } from '../types/transcript';
+import { EpisodeIdentity } from './episodeIdentity';
+
+// Core Data stores dates as seconds since 2001-01-01
+const CORE_DATA_EPOCH_SECONDS = 978307200;
+
+const EPISODE_COLUMNS = [
+  'ZTITLE', 'ZCLEANEDTITLE', 'ZGUID', 'ZSTORETRACKID', 'ZPUBDATE', 'ZDURATION',
+  'ZITEMDESCRIPTION', 'ZPODCAST', 'ZFREETRANSCRIPTIDENTIFIER', 'ZENTITLEDTRANSCRIPTIDENTIFIER'
+];
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+export class PodcastLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PodcastLibraryError';
+  }
+}
+
+/**
+ * Reads episode metadata out of the Podcasts app's MTLibrary.sqlite with an
+ * in-browser SQLite, and uses it to give imported transcripts their real
+ * titles, show names and dates.
+ */
+export class PodcastLibrary {
+  static isLibraryFile(filename: string): boolean {
+    const lowerName = filename.toLowerCase();
+    return lowerName.endsWith('.sqlite') || lowerName.endsWith('.db');
+  }
+
+  static async read(data: Uint8Array): Promise<LibraryEpisodeRecord[]> {
+    if (!sqlJs) {
+      sqlJs = initSqlJs({ locateFile: () => sqlWasmUrl });
+    }
+    const SQL = await sqlJs.catch(error => {
+      sqlJs = null;
+      throw error;
+    });
+
+    let db: Database | undefined;
+    try {
+      db = new SQL.Database(data);
+      return this.readEpisodes(db);
+    } catch (error) {
+      if (error instanceof PodcastLibraryError) throw error;
+      throw new PodcastLibraryError(`Could not read the database: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      db?.close();
+    }
+  }
+
+  /**
+   * Fills in metadata for episodes that match a library record by store ID,
+   * GUID or title. Transcripts that carried no metadata of their own take the
+   * record's title, show and date. Returns the updated episodes and how many matched.
+   */
+  static applyMetadata(episodes: Episode[], records: LibraryEpisodeRecord[]): { episodes: Episode[]; matched: number } {
+    const byKey = new Map<string, LibraryEpisodeRecord>();
+    const byTitle = new Map<string, LibraryEpisodeRecord[]>();
+
+    records.forEach(record => {
+      if (record.storeTrackId) byKey.set(`apple-store-${record.storeTrackId}`, record);
+      record.transcriptIdentifiers.forEach(identifier => {
+        const storeId = /transcript_(\d+)/.exec(identifier)?.[1];
+        if (storeId && !byKey.has(`apple-store-${storeId}`)) byKey.set(`apple-store-${storeId}`, record);
+      });
+      if (record.guid) byKey.set(record.guid, record);
+
+      const titleKey = EpisodeIdentity.normalize(record.title);
+      byTitle.set(titleKey, [...(byTitle.get(titleKey) || []), record]);
+    });
+
+    let matched = 0;
+    const updated = episodes.map(episode => {
+      const sameTitle = byTitle.get(EpisodeIdentity.normalize(episode.title)) || [];
+      const record = (episode.guid && byKey.get(episode.guid)) ||
+        // A title only identifies an episode when no other record shares it
+        (sameTitle.length === 1 ? sameTitle[0] : undefined);
+      if (!record) return episode;
+
+      matched++;
+      const enriched: Episode = {
+        ...episode,
+        guid: episode.guid || record.guid,
+        description: episode.description || record.description,
+        duration: episode.duration || record.duration || 0
+      };
+
+      if (!EpisodeIdentity.hasRealMetadata(episode)) {
+        enriched.title = record.title;
+        enriched.podcastTitle = record.podcastTitle || episode.podcastTitle;
+        enriched.publishDate = record.publishDate || episode.publishDate;
+      }
+      return enriched;
+    });
+
+    return { episodes: updated, matched };
+  }
+
+  private static readEpisodes(db: Database): LibraryEpisodeRecord[] {
+    const tables = this.query(db, "SELECT name FROM sqlite_master WHERE type = 'table'").map(row => row.name);
+    if (!tables.includes('ZMTEPISODE')) {
+      throw new PodcastLibraryError('This database is not a Podcasts library (no ZMTEPISODE table)');
+    }
+
+    const podcastTitles = new Map<number, string>();
+    if (tables.includes('ZMTPODCAST')) {
+      this.query(db, 'SELECT Z_PK, ZTITLE FROM ZMTPODCAST').forEach(row => {
+        if (typeof row.ZTITLE === 'string') podcastTitles.set(Number(row.Z_PK), row.ZTITLE);
+      });
+    }
+
+    // Column sets vary between app versions, so only ask for the ones this library has
+    const available = new Set(this.query(db, 'PRAGMA table_info(ZMTEPISODE)').map(row => row.name));
+    const columns = EPISODE_COLUMNS.filter(column => available.has(column));
+    const rows = this.query(db, `SELECT ${columns.join(', ')} FROM ZMTEPISODE`);
+
+    return rows.flatMap(row => {
+      const title = this.text(row.ZTITLE) || this.text(row.ZCLEANEDTITLE);
+      if (!title) return [];
+
+      const pubDate = typeof row.ZPUBDATE === 'number'
+        ? new Date((row.ZPUBDATE + CORE_DATA_EPOCH_SECONDS) * 1000).toISOString()
+        : undefined;
+
+      return [{
+        title,
+        podcastTitle: row.ZPODCAST !== null && row.ZPODCAST !== undefined ? podcastTitles.get(Number(row.ZPODCAST)) : undefined,
+        guid: this.text(row.ZGUID),
+        storeTrackId: row.ZSTORETRACKID ? String(row.ZSTORETRACKID) : undefined,
+        publishDate: pubDate,
+        duration: typeof row.ZDURATION === 'number' ? row.ZDURATION : undefined,
+        description: this.text(row.ZITEMDESCRIPTION),
+        transcriptIdentifiers: [row.ZFREETRANSCRIPTIDENTIFIER, row.ZENTITLEDTRANSCRIPTIDENTIFIER]
+          .map(value => this.text(value))
+          .filter((value): value is string => Boolean(value))
+      }];
+    });
+  }
+
+  private static query(db: Database, sql: string): Record<string, SqlValue>[] {
+    const [result] = db.exec(sql);
+    if (!result) return [];
+    return result.values.map(values =>
+      Object.fromEntries(result.columns.map((column, index) => [column, values[index]]))
+    );
+  }
+
+  private static text(value: SqlValue | undefined): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+}
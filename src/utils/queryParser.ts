@@ -0,0 +1,294 @@
+export type QueryField = 'speaker' | 'podcast' | 'episode' | 'date';
+
+export type QueryNode =
+  | { type: 'term'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'field'; field: Exclude<QueryField, 'date'>; value: string }
+  | { type: 'dateRange'; from?: number; to?: number }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number }
+  | { kind: 'word' | 'phrase'; value: string; position: number; negated: boolean }
+  | { kind: 'field'; field: string; value: string; position: number; negated: boolean };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  speaker: 'speaker',
+  podcast: 'podcast',
+  show: 'podcast',
+  episode: 'episode',
+  title: 'episode',
+  date: 'date',
+  after: 'date',
+  before: 'date'
+};
+
+export class QueryParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+/**
+ * Parses search queries such as
+ *   "machine learning" AND speaker:Lex -crypto podcast:"Hard Fork"
+ * into a tree. Adjacent terms are joined with an implicit AND; OR binds
+ * looser than AND, and NOT / a leading "-" negate the next term or group.
+ */
+export class QueryParser {
+  private tokens: Token[] = [];
+  private current = 0;
+
+  parse(query: string): QueryNode | null {
+    this.tokens = this.tokenize(query);
+    this.current = 0;
+
+    if (this.tokens.length === 0) return null;
+
+    const node = this.parseOr();
+    if (this.current < this.tokens.length) {
+      const token = this.tokens[this.current];
+      throw new QueryParseError(
+        token.kind === 'rparen' ? 'Unmatched closing parenthesis' : 'Unexpected input',
+        token.position
+      );
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      const operator = this.tokens[this.current++];
+      if (!this.peekOperand()) {
+        throw new QueryParseError('Expected a term after OR', operator.position);
+      }
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    while (this.current < this.tokens.length) {
+      const token = this.peek()!;
+      if (token.kind === 'and') {
+        this.current++;
+        if (!this.peekOperand()) {
+          throw new QueryParseError('Expected a term after AND', token.position);
+        }
+      } else if (!this.peekOperand()) {
+        break;
+      }
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QueryParseError('Expected a search term', this.endPosition());
+    }
+
+    if (token.kind === 'not') {
+      this.current++;
+      if (!this.peekOperand()) {
+        throw new QueryParseError('Expected a term after NOT', token.position);
+      }
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.tokens[this.current++];
+    if (!token) {
+      throw new QueryParseError('Expected a search term', this.endPosition());
+    }
+
+    switch (token.kind) {
+      case 'lparen': {
+        if (this.peek()?.kind === 'rparen') {
+          throw new QueryParseError('Empty parentheses', token.position);
+        }
+        const inner = this.parseOr();
+        if (this.peek()?.kind !== 'rparen') {
+          throw new QueryParseError('Missing closing parenthesis', token.position);
+        }
+        this.current++;
+        return inner;
+      }
+      case 'word':
+        return this.negate({ type: 'term', value: token.value }, token.negated);
+      case 'phrase':
+        if (!token.value) {
+          throw new QueryParseError('Empty quoted phrase', token.position);
+        }
+        return this.negate({ type: 'phrase', value: token.value }, token.negated);
+      case 'field':
+        return this.negate(this.buildFieldNode(token.field, token.value, token.position), token.negated);
+      default:
+        throw new QueryParseError(`Unexpected ${token.kind.toUpperCase()}`, token.position);
+    }
+  }
+
+  private buildFieldNode(field: string, value: string, position: number): QueryNode {
+    const resolved = FIELD_ALIASES[field];
+    if (!resolved) {
+      throw new QueryParseError(`Unknown field "${field}:" (use speaker:, podcast:, episode: or date:)`, position);
+    }
+    if (!value) {
+      throw new QueryParseError(`Missing value for ${field}:`, position);
+    }
+
+    if (resolved !== 'date') {
+      return { type: 'field', field: resolved, value };
+    }
+
+    if (field === 'after') {
+      return { type: 'dateRange', from: this.parseDate(value, position).from };
+    }
+    if (field === 'before') {
+      return { type: 'dateRange', to: this.parseDate(value, position).to };
+    }
+
+    // date:2023, date:2023-05, date:2023-01-01..2023-06-30, date:2023-01..
+    const range = value.split('..');
+    if (range.length === 2) {
+      return {
+        type: 'dateRange',
+        from: range[0] ? this.parseDate(range[0], position).from : undefined,
+        to: range[1] ? this.parseDate(range[1], position).to : undefined
+      };
+    }
+    return { type: 'dateRange', ...this.parseDate(value, position) };
+  }
+
+  /**
+   * Turns a year, month or day into the span of time it covers, as epoch milliseconds.
+   */
+  private parseDate(value: string, position: number): { from: number; to: number } {
+    const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+    if (!match) {
+      throw new QueryParseError(`Invalid date "${value}" (use YYYY, YYYY-MM or YYYY-MM-DD)`, position);
+    }
+
+    const year = parseInt(match[1], 10);
+    const month = match[2] ? parseInt(match[2], 10) - 1 : undefined;
+    const day = match[3] ? parseInt(match[3], 10) : undefined;
+
+    if ((month !== undefined && (month < 0 || month > 11)) || (day !== undefined && (day < 1 || day > 31))) {
+      throw new QueryParseError(`Invalid date "${value}"`, position);
+    }
+
+    const from = new Date(year, month ?? 0, day ?? 1).getTime();
+    const to = day !== undefined
+      ? new Date(year, month!, day + 1).getTime() - 1
+      : month !== undefined
+        ? new Date(year, month + 1, 1).getTime() - 1
+        : new Date(year + 1, 0, 1).getTime() - 1;
+
+    return { from, to };
+  }
+
+  private negate(node: QueryNode, negated: boolean): QueryNode {
+    return negated ? { type: 'not', child: node } : node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.current];
+  }
+
+  private peekOperand(): boolean {
+    const token = this.peek();
+    return !!token && token.kind !== 'rparen' && token.kind !== 'and' && token.kind !== 'or';
+  }
+
+  private endPosition(): number {
+    const last = this.tokens[this.tokens.length - 1];
+    return last ? last.position : 0;
+  }
+
+  private tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === ')') {
+        tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+        i++;
+        continue;
+      }
+
+      const position = i;
+      let negated = false;
+      if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+        negated = true;
+        i++;
+      }
+
+      if (negated && query[i] === '(') {
+        tokens.push({ kind: 'not', position });
+        continue;
+      }
+
+      if (query[i] === '"') {
+        const { value, end } = this.readQuoted(query, i);
+        tokens.push({ kind: 'phrase', value, position, negated });
+        i = end;
+        continue;
+      }
+
+      let word = '';
+      while (i < query.length && !/[\s()"]/.test(query[i])) {
+        word += query[i++];
+      }
+
+      const fieldMatch = word.match(/^([a-zA-Z]+):(.*)$/);
+      if (fieldMatch) {
+        let value = fieldMatch[2];
+        if (!value && query[i] === '"') {
+          const quoted = this.readQuoted(query, i);
+          value = quoted.value;
+          i = quoted.end;
+        }
+        tokens.push({ kind: 'field', field: fieldMatch[1].toLowerCase(), value, position, negated });
+        continue;
+      }
+
+      if (!negated && (word === 'AND' || word === '&&')) {
+        tokens.push({ kind: 'and', position });
+      } else if (!negated && (word === 'OR' || word === '||')) {
+        tokens.push({ kind: 'or', position });
+      } else if (!negated && word === 'NOT') {
+        tokens.push({ kind: 'not', position });
+      } else if (word) {
+        tokens.push({ kind: 'word', value: word, position, negated });
+      } else {
+        i++;
+      }
+    }
+
+    return tokens;
+  }
+
+  private readQuoted(query: string, start: number): { value: string; end: number } {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QueryParseError('Missing closing quote', start);
+    }
+    return { value: query.slice(start + 1, close).trim(), end: close + 1 };
+  }
+}
@@ -1,96 +1,696 @@
-import { Episode, SearchResult, TranscriptSegment } from '../types/transcript';
+import { Episode, SearchResult, SearchOptions, TranscriptSegment, FindOptions, FindMatch } from '../types/transcript';
+import { InvertedIndex, IndexedDocument } from './invertedIndex';
+import { QueryParser, QueryNode } from './queryParser';
+import { TextNormalizer } from './textNormalizer';
+import { SpeakerRoster } from './speakerRoster';
+
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+const NON_WORD_CHAR = '[^\\p{L}\\p{N}]';
+
+export const DEFAULT_EDIT_DISTANCE = 1;
+
+// Regex searches stop themselves after this long, checked between segments. A
+// single runaway match can't be interrupted from inside, so the worker client
+// also enforces it from outside by restarting the worker.
+export const REGEX_TIME_BUDGET_MS = 1000;
+
+const MATCH_CLASS = 'bg-yellow-200 dark:bg-yellow-600 px-1 rounded';
+const CAPTURE_CLASSES = [
+  'bg-orange-300 dark:bg-orange-500 rounded-sm',
+  'bg-green-300 dark:bg-green-600 rounded-sm',
+  'bg-sky-300 dark:bg-sky-600 rounded-sm',
+  'bg-pink-300 dark:bg-pink-600 rounded-sm'
+];
+
+// RegExpExecArray.indices (the "d" flag) is ES2022, newer than our lib target
+type IndexedMatch = RegExpExecArray & { indices?: ([number, number] | undefined)[] };
+
+export class SearchPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchPatternError';
+  }
+
+  static timedOut(): SearchPatternError {
+    return new SearchPatternError(
+      `Pattern took longer than ${REGEX_TIME_BUDGET_MS / 1000}s to run and was stopped. Try a more specific pattern.`
+    );
+  }
+}
+
+interface WeightedTerm {
+  term: string;
+  weight: number;
+}
+
+interface NormalizedTerm {
+  folded: string;
+  stem: string;
+}
+
+interface EvaluationContext {
+  scoringTerms: WeightedTerm[];
+  highlightPatterns: string[];
+}
 
 export class SearchEngine {
-  private episodes: Episode[] = [];
+  private episodes = new Map<string, Episode>();
+  private index = new InvertedIndex();
+  // Folded and stemmed forms of index terms, computed on first fuzzy search
+  private normalizedTerms = new Map<string, NormalizedTerm>();
 
   setEpisodes(episodes: Episode[]) {
-    this.episodes = episodes;
+    this.episodes.clear();
+    this.index.clear();
+    this.normalizedTerms.clear();
+    this.addEpisodes(episodes);
+  }
+
+  addEpisodes(episodes: Episode[]) {
+    episodes.forEach(episode => {
+      this.episodes.set(episode.id, episode);
+      this.index.addEpisode(episode);
+    });
+  }
+
+  removeEpisode(episodeId: string) {
+    this.episodes.delete(episodeId);
+    this.index.removeEpisode(episodeId);
   }
 
-  search(query: string, options: { caseSensitive?: boolean; wholeWords?: boolean } = {}): SearchResult[] {
-    if (!query.trim()) return [];
+  /**
+   * Brings the index in line with the given library, re-indexing only episodes
+   * that were added, replaced or removed since the last call. Returns whether
+   * anything changed.
+   */
+  syncEpisodes(episodes: Episode[]): boolean {
+    const incomingIds = new Set(episodes.map(episode => episode.id));
+    let changed = false;
+
+    Array.from(this.episodes.keys()).forEach(episodeId => {
+      if (!incomingIds.has(episodeId)) {
+        this.removeEpisode(episodeId);
+        changed = true;
+      }
+    });
+
+    const addedOrUpdated = episodes.filter(episode => this.episodes.get(episode.id) !== episode);
+    if (addedOrUpdated.length > 0) {
+      this.addEpisodes(addedOrUpdated);
+      changed = true;
+    }
 
+    return changed;
+  }
+
+  /**
+   * Runs a query written in the syntax understood by QueryParser. Throws a
+   * QueryParseError when the query is malformed.
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    if (options.regex) {
+      return this.searchPattern(query, options);
+    }
+
+    const tree = new QueryParser().parse(query);
+    if (!tree) return [];
+
+    const context: EvaluationContext = { scoringTerms: [], highlightPatterns: [] };
+    const matches = this.evaluate(tree, options, context, false);
+    if (matches.size === 0) return [];
+
+    const matcher = this.buildMatcher(context.highlightPatterns, options);
     const results: SearchResult[] = [];
-    const searchQuery = options.caseSensitive ? query : query.toLowerCase();
-    
-    this.episodes.forEach(episode => {
-      episode.transcript.forEach(segment => {
-        const text = options.caseSensitive ? segment.text : segment.text.toLowerCase();
-        
-        if (this.matchesQuery(text, searchQuery, options.wholeWords)) {
-          results.push({
-            segmentId: segment.id,
-            episodeId: episode.id,
-            text: segment.text,
-            timestamp: segment.timestamp,
-            highlightedText: this.highlightMatches(segment.text, query, options.caseSensitive)
-          });
-        }
+
+    matches.forEach(docId => {
+      const document = this.index.getDocument(docId);
+      if (!document) return;
+
+      const { segment, episodeId } = document;
+      const score = context.scoringTerms.reduce(
+        (total, { term, weight }) => total + weight * this.index.scoreTerm(term, docId),
+        0
+      );
+
+      const matchRanges = matcher ? this.toRanges(this.findNonEmptyMatches(segment.text, matcher)) : [];
+      const wordIndex = matchRanges.length > 0 ? this.findMatchingWordIndex(segment, matchRanges[0][0]) : undefined;
+
+      results.push({
+        segmentId: segment.id,
+        episodeId,
+        text: segment.text,
+        timestamp: wordIndex !== undefined ? segment.words![wordIndex].start : segment.timestamp,
+        highlightedText: matcher ? this.highlightMatches(segment.text, matcher) : this.escapeHtml(segment.text),
+        matchRanges,
+        wordIndex,
+        score
+      });
+    });
+
+    return this.sortResults(results);
+  }
+
+  /**
+   * Regex mode: the whole query is one regular expression, tested against every
+   * segment. Segments are ranked by how many times the pattern matches. Throws a
+   * SearchPatternError for invalid or runaway patterns.
+   */
+  private searchPattern(pattern: string, options: SearchOptions): SearchResult[] {
+    if (!pattern.trim()) return [];
+
+    const matcher = this.compilePattern(pattern, options);
+    const deadline = Date.now() + REGEX_TIME_BUDGET_MS;
+    const results: SearchResult[] = [];
+
+    this.index.getDocumentIds().forEach(docId => {
+      if (Date.now() > deadline) {
+        throw SearchPatternError.timedOut();
+      }
+
+      const { segment, episodeId } = this.index.getDocument(docId)!;
+      const matches = this.findNonEmptyMatches(segment.text, matcher);
+      if (matches.length === 0) return;
+
+      const wordIndex = this.findMatchingWordIndex(segment, matches[0].index);
+      results.push({
+        segmentId: segment.id,
+        episodeId,
+        text: segment.text,
+        timestamp: wordIndex !== undefined ? segment.words![wordIndex].start : segment.timestamp,
+        highlightedText: this.highlightMatches(segment.text, matcher),
+        matchRanges: this.toRanges(matches),
+        wordIndex,
+        score: matches.length
+      });
+    });
+
+    return this.sortResults(results);
+  }
+
+  /**
+   * Every occurrence of a string, or of a regular expression in regex mode, for
+   * find and replace. Unlike search, each match is reported on its own with its
+   * offsets and captures. Throws a SearchPatternError for invalid or runaway patterns.
+   */
+  findMatches(pattern: string, options: FindOptions = {}): FindMatch[] {
+    if (!pattern) return [];
+
+    const matcher = this.compilePattern(options.regex ? pattern : this.escapeRegex(pattern), options);
+    const episodeIds = options.episodeIds ? new Set(options.episodeIds) : null;
+    const deadline = Date.now() + REGEX_TIME_BUDGET_MS;
+    const matches: FindMatch[] = [];
+
+    this.index.getDocumentIds().forEach(docId => {
+      if (Date.now() > deadline) {
+        throw SearchPatternError.timedOut();
+      }
+
+      const { segment, episodeId } = this.index.getDocument(docId)!;
+      if (episodeIds && !episodeIds.has(episodeId)) return;
+
+      this.findNonEmptyMatches(segment.text, matcher).forEach(match => {
+        matches.push({
+          episodeId,
+          segmentId: segment.id,
+          timestamp: segment.timestamp,
+          start: match.index,
+          end: match.index + match[0].length,
+          text: match[0],
+          captures: match.slice(1),
+          groups: match.groups ? { ...match.groups } : undefined
+        });
       });
     });
 
+    return matches;
+  }
+
+  private toRanges(matches: RegExpExecArray[]): [number, number][] {
+    return matches.map(match => [match.index, match.index + match[0].length]);
+  }
+
+  private sortResults(results: SearchResult[]): SearchResult[] {
     return results.sort((a, b) => {
-      // Sort by relevance (number of matches) and then by timestamp
-      const aMatches = this.countMatches(a.text, searchQuery, options.wholeWords);
-      const bMatches = this.countMatches(b.text, searchQuery, options.wholeWords);
-      
-      if (aMatches !== bMatches) {
-        return bMatches - aMatches;
+      // Sort by relevance and then by timestamp
+      if (a.score !== b.score) {
+        return (b.score || 0) - (a.score || 0);
       }
       
       return a.timestamp - b.timestamp;
     });
   }
 
-  private matchesQuery(text: string, query: string, wholeWords?: boolean): boolean {
-    if (wholeWords) {
-      const regex = new RegExp(`\\b${this.escapeRegex(query)}\\b`, 'gi');
-      return regex.test(text);
+  /**
+   * Compiles a user pattern, preferring Unicode mode and falling back to legacy
+   * syntax (which accepts escapes like "\-" that Unicode mode rejects).
+   */
+  private compilePattern(pattern: string, options: SearchOptions): RegExp {
+    const nested = this.findNestedQuantifier(pattern);
+    if (nested !== null) {
+      throw new SearchPatternError(
+        `Pattern has a repeated group containing another repetition at position ${nested + 1}, which can take exponential time. Make the inner or outer repetition more specific.`
+      );
     }
-    
-    return text.includes(query);
-  }
-
-  private countMatches(text: string, query: string, wholeWords?: boolean): number {
-    const searchText = text.toLowerCase();
-    const searchQuery = query.toLowerCase();
-    
-    if (wholeWords) {
-      const regex = new RegExp(`\\b${this.escapeRegex(searchQuery)}\\b`, 'gi');
-      const matches = searchText.match(regex);
-      return matches ? matches.length : 0;
+
+    const caseFlag = options.caseSensitive ? '' : 'i';
+    let firstError: unknown;
+
+    for (const unicode of [true, false]) {
+      const source = options.wholeWords
+        ? unicode ? `(?<!${WORD_CHAR})(?:${pattern})(?!${WORD_CHAR})` : `\\b(?:${pattern})\\b`
+        : pattern;
+      const flags = `g${caseFlag}${unicode ? 'u' : ''}`;
+
+      try {
+        // Capture indices are used for highlighting where the browser supports them
+        try {
+          return new RegExp(source, `${flags}d`);
+        } catch {
+          return new RegExp(source, flags);
+        }
+      } catch (error) {
+        firstError ??= error;
+      }
     }
-    
-    let count = 0;
-    let pos = 0;
-    while ((pos = searchText.indexOf(searchQuery, pos)) !== -1) {
-      count++;
-      pos += searchQuery.length;
+
+    const message = firstError instanceof Error ? firstError.message : String(firstError);
+    // "Invalid regular expression: /(a/: Unterminated group" -> "Unterminated group"
+    throw new SearchPatternError(`Invalid regular expression: ${message.replace(/^Invalid regular expression: \/.*\/[a-z]*: /, '')}`);
+  }
+
+  /**
+   * Spots the classic catastrophic-backtracking shape: a group repeated without
+   * bound that itself contains an unbounded repetition, like (a+)+ or (\w*\s?)*.
+   * These are rejected before running, which also protects the main thread when
+   * there's no worker to restart. Returns the position of the outer quantifier,
+   * or null.
+   */
+  private findNestedQuantifier(pattern: string): number | null {
+    const groups: boolean[] = [];
+    let containsUnbounded = false;
+
+    const unboundedAt = (position: number): boolean => {
+      const char = pattern[position];
+      return char === '*' || char === '+' || (char === '{' && /^\{\d*,\}/.test(pattern.slice(position)));
+    };
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '\\') {
+        i++;
+        if (unboundedAt(i + 1)) containsUnbounded = true;
+        continue;
+      }
+
+      if (char === '[') {
+        // Skip the character class; a quantifier after it is an ordinary repetition
+        i++;
+        if (pattern[i] === '^') i++;
+        if (pattern[i] === ']') i++;
+        while (i < pattern.length && pattern[i] !== ']') {
+          if (pattern[i] === '\\') i++;
+          i++;
+        }
+        if (unboundedAt(i + 1)) containsUnbounded = true;
+        continue;
+      }
+
+      if (char === '(') {
+        groups.push(containsUnbounded);
+        containsUnbounded = false;
+        continue;
+      }
+
+      if (char === ')') {
+        // Unbalanced parentheses are left for the RegExp constructor to report
+        if (groups.length === 0) return null;
+
+        const groupUnbounded: boolean = containsUnbounded;
+        containsUnbounded = groups.pop()! || groupUnbounded;
+        if (unboundedAt(i + 1)) {
+          if (groupUnbounded) return i + 1;
+          containsUnbounded = true;
+        }
+        continue;
+      }
+
+      if (unboundedAt(i + 1) && char !== '*' && char !== '+' && char !== '?' && char !== '}') {
+        containsUnbounded = true;
+      }
     }
-    
-    return count;
+
+    return null;
   }
 
-  private highlightMatches(text: string, query: string, caseSensitive?: boolean): string {
-    if (!query.trim()) return text;
-    
-    const flags = caseSensitive ? 'g' : 'gi';
-    const escapedQuery = this.escapeRegex(query);
-    const regex = new RegExp(`(${escapedQuery})`, flags);
-    
-    return text.replace(regex, '<mark class="bg-yellow-200 dark:bg-yellow-600 px-1 rounded">$1</mark>');
+  private findNonEmptyMatches(text: string, matcher: RegExp): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    let match: RegExpExecArray | null;
+
+    matcher.lastIndex = 0;
+    while ((match = matcher.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        matcher.lastIndex++;
+        continue;
+      }
+      matches.push(match);
+    }
+    return matches;
+  }
+
+  /**
+   * Resolves a query node to the set of matching segment documents. Terms that
+   * aren't under a NOT are recorded in the context for scoring and highlighting.
+   */
+  private evaluate(node: QueryNode, options: SearchOptions, context: EvaluationContext, negated: boolean): Set<number> {
+    switch (node.type) {
+      case 'term':
+        return this.evaluateText(node.value, false, options, context, negated);
+      case 'phrase':
+        return this.evaluateText(node.value, true, options, context, negated);
+      case 'field':
+        return this.filterDocuments((document, episode) => {
+          const needle = node.value.toLowerCase();
+          if (node.field === 'speaker') return SpeakerRoster.matches(episode, document.segment.speaker, needle);
+          if (node.field === 'podcast') return episode.podcastTitle.toLowerCase().includes(needle);
+          return episode.title.toLowerCase().includes(needle);
+        });
+      case 'dateRange':
+        return this.filterDocuments((_, episode) => {
+          const published = Date.parse(episode.publishDate);
+          if (isNaN(published)) return false;
+          return (node.from === undefined || published >= node.from) && (node.to === undefined || published <= node.to);
+        });
+      case 'not': {
+        const excluded = this.evaluate(node.child, options, context, !negated);
+        return this.difference(this.index.getDocumentIds(), excluded);
+      }
+      case 'or': {
+        const union = new Set<number>();
+        node.children.forEach(child => {
+          this.evaluate(child, options, context, negated).forEach(docId => union.add(docId));
+        });
+        return union;
+      }
+      case 'and': {
+        // Subtract negated children instead of intersecting with their (large) complements
+        const included = node.children.filter(child => child.type !== 'not');
+        const excluded = node.children.filter((child): child is Extract<QueryNode, { type: 'not' }> => child.type === 'not');
+
+        let result: Set<number> | null = null;
+        for (const child of included) {
+          const matches = this.evaluate(child, options, context, negated);
+          result = result === null ? matches : this.intersect(result, matches);
+          if (result.size === 0) return result;
+        }
+
+        let remaining = result ?? this.index.getDocumentIds();
+        for (const child of excluded) {
+          remaining = this.difference(remaining, this.evaluate(child.child, options, context, !negated));
+        }
+        return remaining;
+      }
+    }
+  }
+
+  private evaluateText(value: string, isPhrase: boolean, options: SearchOptions, context: EvaluationContext, negated: boolean): Set<number> {
+    const tokens = InvertedIndex.splitTokens(value);
+    if (tokens.length === 0) return new Set();
+
+    // Terms that split into several tokens (like "A.I.") behave as phrases
+    const exact = isPhrase || tokens.length > 1;
+    const lowerTokens = tokens.map(token => token.toLowerCase());
+    const expansions = lowerTokens.map(token => this.expandTerm(token, exact, options));
+
+    const matches = exact
+      ? this.findPhrase(expansions.map(terms => terms.map(({ term }) => term)))
+      : this.collectDocIds(expansions[0].map(({ term }) => term));
+
+    // The index is case-folded, so case-sensitive searches are verified against the original text.
+    // Fuzzy matching is always case-insensitive.
+    let verified = matches;
+    if (options.caseSensitive && !options.fuzzy && matches.size > 0) {
+      const casePattern = exact
+        ? tokens.map(token => this.termPattern(token)).join(`${NON_WORD_CHAR}+`)
+        : this.termPattern(tokens[0]);
+      const verifier = new RegExp(`(?<!${WORD_CHAR})${casePattern}`, 'u');
+      verified = new Set(Array.from(matches).filter(docId => verifier.test(this.index.getDocument(docId)!.segment.text)));
+    }
+
+    if (!negated) {
+      context.scoringTerms.push(...expansions.flat());
+      const pattern = this.buildTextPattern(lowerTokens, expansions, exact, options);
+      if (pattern) context.highlightPatterns.push(pattern);
+    }
+
+    return verified;
+  }
+
+  /**
+   * Index terms a query token should match. Without fuzzy mode that's the token
+   * itself or, unless whole words are required, every term it prefixes. Fuzzy mode
+   * also compares accent-folded forms and stems, and allows a few typos; typo
+   * matches are weighted down so exact hits rank first.
+   */
+  private expandTerm(token: string, exact: boolean, options: SearchOptions): WeightedTerm[] {
+    if (!options.fuzzy) {
+      const terms = exact || options.wholeWords
+        ? (this.index.getPostings(token) ? [token] : [])
+        : this.index.expandPrefix(token);
+      return terms.map(term => ({ term, weight: 1 }));
+    }
+
+    const query = this.normalizeTerm(token);
+    const maxDistance = TextNormalizer.allowedEditDistance(query.folded, options.maxEditDistance ?? DEFAULT_EDIT_DISTANCE);
+    const allowPrefix = !exact && !options.wholeWords;
+    const expansions: WeightedTerm[] = [];
+
+    this.index.getTerms().forEach(term => {
+      const candidate = this.normalizeTerm(term);
+      if (
+        candidate.folded === query.folded ||
+        candidate.stem === query.stem ||
+        (allowPrefix && candidate.folded.startsWith(query.folded))
+      ) {
+        expansions.push({ term, weight: 1 });
+        return;
+      }
+
+      if (maxDistance > 0) {
+        const distance = TextNormalizer.editDistance(query.folded, candidate.folded, maxDistance);
+        if (distance <= maxDistance) {
+          expansions.push({ term, weight: 1 / (1 + distance) });
+        }
+      }
+    });
+
+    return expansions;
+  }
+
+  private normalizeTerm(term: string): NormalizedTerm {
+    let normalized = this.normalizedTerms.get(term);
+    if (!normalized) {
+      const folded = TextNormalizer.foldAccents(term);
+      normalized = { folded, stem: TextNormalizer.stem(folded) };
+      this.normalizedTerms.set(term, normalized);
+    }
+    return normalized;
+  }
+
+  /**
+   * Highlight pattern for a term or phrase. Fuzzy matches are highlighted by the
+   * index terms they matched, so a search for "kubernetes" marks "Kuberentes".
+   */
+  private buildTextPattern(tokens: string[], expansions: WeightedTerm[][], exact: boolean, options: SearchOptions): string | null {
+    if (!options.fuzzy) {
+      return exact
+        ? `${tokens.map(token => this.termPattern(token)).join(`${NON_WORD_CHAR}+`)}(?!${WORD_CHAR})`
+        : `${this.termPattern(tokens[0])}${options.wholeWords ? `(?!${WORD_CHAR})` : `${WORD_CHAR}*`}`;
+    }
+
+    if (expansions.some(terms => terms.length === 0)) return null;
+
+    const positions = expansions.map(terms =>
+      `(?:${terms.map(({ term }) => term).sort((a, b) => b.length - a.length).map(term => this.termPattern(term)).join('|')})`
+    );
+    return `${positions.join(`${NON_WORD_CHAR}+`)}(?!${WORD_CHAR})`;
+  }
+
+  /**
+   * Escapes a token for use in a pattern, matching either apostrophe style since
+   * the index stores them normalized.
+   */
+  private termPattern(token: string): string {
+    return this.escapeRegex(token).replace(/'/g, "['’]");
+  }
+
+  /**
+   * Documents where the positions' terms appear consecutively. Each position
+   * lists the alternative index terms that may fill it.
+   */
+  private findPhrase(positions: string[][]): Set<number> {
+    const postings = positions.map(terms => terms.map(term => this.index.getPostings(term)!).filter(Boolean));
+    if (postings.some(termPostings => termPostings.length === 0)) return new Set();
+
+    const hasPosition = (offset: number, docId: number, position: number) =>
+      postings[offset].some(termPostings => termPostings.get(docId)?.includes(position));
+
+    const matches = new Set<number>();
+    postings[0].forEach(termPostings => {
+      termPostings.forEach((startPositions, docId) => {
+        if (matches.has(docId)) return;
+        const found = startPositions.some(start =>
+          postings.every((_, offset) => offset === 0 || hasPosition(offset, docId, start + offset))
+        );
+        if (found) matches.add(docId);
+      });
+    });
+    return matches;
+  }
+
+  private filterDocuments(predicate: (document: IndexedDocument, episode: Episode) => boolean): Set<number> {
+    const matches = new Set<number>();
+    this.index.getDocumentIds().forEach(docId => {
+      const document = this.index.getDocument(docId)!;
+      const episode = this.episodes.get(document.episodeId);
+      if (episode && predicate(document, episode)) matches.add(docId);
+    });
+    return matches;
+  }
+
+  private intersect(a: Set<number>, b: Set<number>): Set<number> {
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+    return new Set(Array.from(smaller).filter(docId => larger.has(docId)));
+  }
+
+  private difference(a: Set<number>, b: Set<number>): Set<number> {
+    return new Set(Array.from(a).filter(docId => !b.has(docId)));
+  }
+
+  private collectDocIds(terms: string[]): Set<number> {
+    const docIds = new Set<number>();
+    terms.forEach(term => {
+      this.index.getPostings(term)?.forEach((_, docId) => docIds.add(docId));
+    });
+    return docIds;
+  }
+
+  /**
+   * Maps a character offset in the segment text to the timed word that contains it,
+   * so a hit can seek to the word rather than to the start of the segment.
+   */
+  private findMatchingWordIndex(segment: TranscriptSegment, matchOffset: number): number | undefined {
+    if (!segment.words || segment.words.length === 0 || matchOffset < 0) return undefined;
+
+    const text = segment.text.toLowerCase();
+    let cursor = 0;
+
+    for (let index = 0; index < segment.words.length; index++) {
+      const word = segment.words[index].text.toLowerCase();
+      const position = text.indexOf(word, cursor);
+      if (position === -1) continue;
+
+      const wordEnd = position + word.length;
+      if (matchOffset < wordEnd) return index;
+      cursor = wordEnd;
+    }
+
+    return undefined;
+  }
+
+  private buildMatcher(patterns: string[], options: SearchOptions): RegExp | null {
+    if (patterns.length === 0) return null;
+
+    // Longer patterns first so a phrase wins over one of its own words
+    const alternatives = [...new Set(patterns)].sort((a, b) => b.length - a.length).join('|');
+    const flags = options.caseSensitive && !options.fuzzy ? 'gu' : 'giu';
+
+    return new RegExp(`(?<!${WORD_CHAR})(?:${alternatives})`, flags);
+  }
+
+  private highlightMatches(text: string, matcher: RegExp): string {
+    let highlighted = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    matcher.lastIndex = 0;
+    while ((match = matcher.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        matcher.lastIndex++;
+        continue;
+      }
+      highlighted += this.escapeHtml(text.slice(lastIndex, match.index));
+      highlighted += `<mark class="${MATCH_CLASS}">${this.renderCaptures(text, match as IndexedMatch)}</mark>`;
+      lastIndex = match.index + match[0].length;
+    }
+
+    return highlighted + this.escapeHtml(text.slice(lastIndex));
+  }
+
+  /**
+   * Marks each capture group inside a match with its own color. Groups nest, so
+   * they are emitted as nested marks; captures reaching outside the match (from
+   * lookarounds) are clipped to it.
+   */
+  private renderCaptures(text: string, match: IndexedMatch): string {
+    const start = match.index;
+    const end = start + match[0].length;
+
+    const captures = (match.indices ?? [])
+      .map((range, group) => ({ range, group }))
+      .filter(({ range, group }) => group > 0 && range && range[1] > range[0])
+      .map(({ range, group }) => ({
+        start: Math.max(range![0], start),
+        end: Math.min(range![1], end),
+        group
+      }))
+      .filter(capture => capture.end > capture.start)
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    if (captures.length === 0) return this.escapeHtml(match[0]);
+
+    let html = '';
+    let cursor = start;
+    const open: number[] = [];
+
+    const closeUntil = (position: number) => {
+      while (open.length > 0 && open[open.length - 1] <= position) {
+        const closeAt = open.pop()!;
+        html += `${this.escapeHtml(text.slice(cursor, closeAt))}</mark>`;
+        cursor = closeAt;
+      }
+    };
+
+    captures.forEach(capture => {
+      closeUntil(capture.start);
+      const captureEnd = open.length > 0 ? Math.min(capture.end, open[open.length - 1]) : capture.end;
+      html += this.escapeHtml(text.slice(cursor, capture.start));
+      html += `<mark class="${CAPTURE_CLASSES[(capture.group - 1) % CAPTURE_CLASSES.length]}" title="Group ${capture.group}">`;
+      cursor = capture.start;
+      open.push(captureEnd);
+    });
+
+    closeUntil(end);
+    return html + this.escapeHtml(text.slice(cursor, end));
   }
 
   private escapeRegex(string: string): string {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
   }
 
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
   getEpisodeById(episodeId: string): Episode | undefined {
-    return this.episodes.find(episode => episode.id === episodeId);
+    return this.episodes.get(episodeId);
   }
 
   getSegmentById(episodeId: string, segmentId: string): TranscriptSegment | undefined {
     const episode = this.getEpisodeById(episodeId);
     return episode?.transcript.find(segment => segment.id === segmentId);
   }
-}
\ No newline at end of file
+}
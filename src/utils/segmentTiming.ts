@@ -0,0 +1,53 @@
+import { TranscriptSegment } from '../types/transcript';
+
+// Rough speaking rate, used only when a segment has no end time and nothing follows it
+const ESTIMATED_SECONDS_PER_WORD = 0.4;
+
+export class SegmentTiming {
+  /**
+   * Fills in missing end times from the start of the next segment that begins
+   * later. The last segment is bounded by the episode duration when it is known.
+   */
+  static inferEndTimes(segments: TranscriptSegment[], totalDuration?: number): TranscriptSegment[] {
+    segments.forEach((segment, index) => {
+      if (segment.endTime !== undefined && segment.endTime >= segment.timestamp) return;
+
+      const lastWord = segment.words?.[segment.words.length - 1];
+      if (lastWord && lastWord.end >= segment.timestamp) {
+        segment.endTime = lastWord.end;
+        return;
+      }
+
+      const next = segments.slice(index + 1).find(candidate => candidate.timestamp > segment.timestamp);
+      if (next) {
+        segment.endTime = next.timestamp;
+      } else if (totalDuration && totalDuration > segment.timestamp) {
+        segment.endTime = totalDuration;
+      } else {
+        segment.endTime = undefined;
+      }
+    });
+
+    return segments;
+  }
+
+  static getEndTime(segment: TranscriptSegment): number {
+    if (segment.endTime !== undefined && segment.endTime >= segment.timestamp) {
+      return segment.endTime;
+    }
+    return segment.timestamp + this.estimateSpokenDuration(segment.text);
+  }
+
+  static getDuration(segment: TranscriptSegment): number {
+    return this.getEndTime(segment) - segment.timestamp;
+  }
+
+  static getTotalDuration(segments: TranscriptSegment[]): number {
+    return segments.reduce((max, segment) => Math.max(max, this.getEndTime(segment)), 0);
+  }
+
+  static estimateSpokenDuration(text: string): number {
+    const wordCount = text.split(/\s+/).filter(word => word.length > 0).length;
+    return wordCount * ESTIMATED_SECONDS_PER_WORD;
+  }
+}
@@ -0,0 +1,108 @@
+export interface SnippetPart {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface Snippet {
+  parts: SnippetPart[];
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+interface WordSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Cuts keyword-in-context snippets out of a segment: each match with a few
+ * words either side. Matches whose context windows touch share one snippet.
+ */
+export class SnippetBuilder {
+  static build(text: string, matchRanges: [number, number][], contextWords = 6): Snippet[] {
+    const words: WordSpan[] = [];
+    const wordPattern = /\S+/g;
+    let word: RegExpExecArray | null;
+    while ((word = wordPattern.exec(text)) !== null) {
+      words.push({ start: word.index, end: word.index + word[0].length });
+    }
+    if (words.length === 0) return [];
+
+    const lastWord = words.length - 1;
+    const ranges = [...matchRanges]
+      .filter(([start, end]) => end > start)
+      .sort((a, b) => a[0] - b[0]);
+
+    // Filter-only queries (speaker:, date:) have nothing to mark, so show the opening words
+    if (ranges.length === 0) {
+      const windowEnd = Math.min(lastWord, contextWords * 2 - 1);
+      return [{
+        parts: [{ text: text.slice(words[0].start, words[windowEnd].end), isMatch: false }],
+        truncatedStart: false,
+        truncatedEnd: windowEnd < lastWord
+      }];
+    }
+
+    const windows: { first: number; last: number; ranges: [number, number][] }[] = [];
+    ranges.forEach(range => {
+      const first = Math.max(0, this.wordAt(words, range[0]) - contextWords);
+      const last = Math.min(lastWord, this.wordAt(words, range[1] - 1) + contextWords);
+      const previous = windows[windows.length - 1];
+
+      if (previous && first <= previous.last + 1) {
+        previous.last = Math.max(previous.last, last);
+        previous.ranges.push(range);
+      } else {
+        windows.push({ first, last, ranges: [range] });
+      }
+    });
+
+    return windows.map(window => {
+      const windowStart = words[window.first].start;
+      const windowEnd = words[window.last].end;
+      const parts: SnippetPart[] = [];
+      let cursor = windowStart;
+
+      window.ranges.forEach(([start, end]) => {
+        // Overlapping matches are folded into the one already emitted
+        const matchStart = Math.max(start, cursor);
+        if (end <= matchStart) return;
+
+        if (matchStart > cursor) {
+          parts.push({ text: text.slice(cursor, matchStart), isMatch: false });
+        }
+        parts.push({ text: text.slice(matchStart, end), isMatch: true });
+        cursor = end;
+      });
+
+      if (windowEnd > cursor) {
+        parts.push({ text: text.slice(cursor, windowEnd), isMatch: false });
+      }
+
+      return {
+        parts,
+        truncatedStart: window.first > 0,
+        truncatedEnd: window.last < lastWord
+      };
+    });
+  }
+
+  /**
+   * Index of the word containing the offset, or the nearest word before it when
+   * the offset falls on whitespace.
+   */
+  private static wordAt(words: WordSpan[], offset: number): number {
+    let low = 0;
+    let high = words.length - 1;
+
+    while (low < high) {
+      const mid = (low + high + 1) >>> 1;
+      if (words[mid].start <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,180 @@
+import { Episode, SpeakerDefaults, SpeakerProfile } from '../types/transcript';
+import { EpisodeIdentity } from './episodeIdentity';
+
+// Color IDs speakers can be given; the viewer maps each to its styles
+export const SPEAKER_COLORS = ['purple', 'blue', 'green', 'amber', 'pink', 'teal', 'red', 'indigo'] as const;
+
+export type SpeakerColor = typeof SPEAKER_COLORS[number];
+
+export interface SpeakerEntry {
+  label: string;
+  name: string;
+  color: SpeakerColor;
+  segmentCount: number;
+  mergedInto?: string;
+}
+
+/**
+ * Resolves the speaker labels parsers leave on segments ("SPEAKER_01", TTML
+ * agent IDs) to the names and colors set in an episode's roster. Renames and
+ * merges only touch the roster, so they can be undone and survive re-imports.
+ */
+export class SpeakerRoster {
+  // Labels in order of first appearance
+  static labels(episode: Episode): string[] {
+    const labels = new Set<string>();
+    episode.transcript.forEach(segment => {
+      if (segment.speaker) labels.add(segment.speaker);
+    });
+    return Array.from(labels);
+  }
+
+  static entries(episode: Episode): SpeakerEntry[] {
+    const counts = new Map<string, number>();
+    episode.transcript.forEach(segment => {
+      if (segment.speaker) counts.set(segment.speaker, (counts.get(segment.speaker) || 0) + 1);
+    });
+
+    return Array.from(counts.keys()).map(label => ({
+      label,
+      name: this.displayName(episode, label) || label,
+      color: this.color(episode, label),
+      segmentCount: counts.get(label)!,
+      mergedInto: episode.speakers?.[label]?.mergedInto
+    }));
+  }
+
+  /**
+   * The label whose profile applies, following merges.
+   */
+  static resolveLabel(episode: Episode, label: string): string {
+    const seen = new Set<string>();
+    let current = label;
+    while (episode.speakers?.[current]?.mergedInto && !seen.has(current)) {
+      seen.add(current);
+      current = episode.speakers[current].mergedInto!;
+    }
+    return current;
+  }
+
+  static displayName(episode: Episode, label: string | undefined): string | undefined {
+    if (!label) return undefined;
+    const resolved = this.resolveLabel(episode, label);
+    return episode.speakers?.[resolved]?.name?.trim() || resolved;
+  }
+
+  static color(episode: Episode, label: string): SpeakerColor {
+    const resolved = this.resolveLabel(episode, label);
+    const chosen = episode.speakers?.[resolved]?.color;
+    if (this.isColor(chosen)) return chosen;
+
+    const index = this.labels(episode).indexOf(resolved);
+    return SPEAKER_COLORS[Math.max(index, 0) % SPEAKER_COLORS.length];
+  }
+
+  /**
+   * Whether a segment's speaker matches a `speaker:` search, by name or original label.
+   */
+  static matches(episode: Episode, label: string | undefined, needle: string): boolean {
+    if (!label) return false;
+    const lowerNeedle = needle.toLowerCase();
+    return label.toLowerCase().includes(lowerNeedle) ||
+      !!this.displayName(episode, label)?.toLowerCase().includes(lowerNeedle);
+  }
+
+  static rename(episode: Episode, label: string, name: string): Record<string, SpeakerProfile> {
+    const target = this.resolveLabel(episode, label);
+    return this.update(episode, target, { name: name.trim() || undefined });
+  }
+
+  static setColor(episode: Episode, label: string, color: SpeakerColor): Record<string, SpeakerProfile> {
+    return this.update(episode, this.resolveLabel(episode, label), { color });
+  }
+
+  /**
+   * Shows `label` as `into`. Labels already merged into `label` follow it.
+   */
+  static merge(episode: Episode, label: string, into: string): Record<string, SpeakerProfile> {
+    const target = this.resolveLabel(episode, into);
+    if (target === label) return { ...episode.speakers };
+
+    const speakers = this.update(episode, label, { mergedInto: target });
+    Object.keys(speakers).forEach(other => {
+      if (speakers[other].mergedInto === label) speakers[other] = { ...speakers[other], mergedInto: target };
+    });
+    return speakers;
+  }
+
+  static unmerge(episode: Episode, label: string): Record<string, SpeakerProfile> {
+    return this.update(episode, label, { mergedInto: undefined });
+  }
+
+  /**
+   * A copy of the episode whose segments carry display names instead of
+   * labels, for exporting.
+   */
+  static applyNames(episode: Episode): Episode {
+    if (!episode.speakers || Object.keys(episode.speakers).length === 0) return episode;
+    return {
+      ...episode,
+      transcript: episode.transcript.map(segment => segment.speaker
+        ? { ...segment, speaker: this.displayName(episode, segment.speaker) }
+        : segment)
+    };
+  }
+
+  /**
+   * Gives labels the episode has no profile for the podcast's default name and
+   * color. Returns the roster unchanged when no default applies.
+   */
+  static withDefaults(episode: Episode, defaults: SpeakerDefaults): Record<string, SpeakerProfile> | undefined {
+    const podcastDefaults = defaults[this.podcastKey(episode.podcastTitle)];
+    if (!podcastDefaults) return episode.speakers;
+
+    let speakers = episode.speakers;
+    this.labels(episode).forEach(label => {
+      if (speakers?.[label] || !podcastDefaults[label]) return;
+      speakers = { ...speakers, [label]: { ...podcastDefaults[label] } };
+    });
+    return speakers;
+  }
+
+  /**
+   * The episode's roster as defaults for its podcast, merged over any saved before.
+   */
+  static toDefaults(episode: Episode, defaults: SpeakerDefaults): SpeakerDefaults {
+    const key = this.podcastKey(episode.podcastTitle);
+    const podcastDefaults = { ...defaults[key] };
+
+    this.labels(episode).forEach(label => {
+      const name = this.displayName(episode, label);
+      podcastDefaults[label] = name && name !== label
+        ? { name, color: this.color(episode, label) }
+        : { color: this.color(episode, label) };
+    });
+    return { ...defaults, [key]: podcastDefaults };
+  }
+
+  static podcastKey(podcastTitle: string): string {
+    return EpisodeIdentity.normalize(podcastTitle);
+  }
+
+  private static update(episode: Episode, label: string, changes: SpeakerProfile): Record<string, SpeakerProfile> {
+    const profile: SpeakerProfile = { ...episode.speakers?.[label], ...changes };
+    (Object.keys(profile) as (keyof SpeakerProfile)[]).forEach(key => {
+      if (profile[key] === undefined) delete profile[key];
+    });
+
+    const speakers = { ...episode.speakers };
+    if (Object.keys(profile).length > 0) {
+      speakers[label] = profile;
+    } else {
+      delete speakers[label];
+    }
+    return speakers;
+  }
+
+  private static isColor(color: string | undefined): color is SpeakerColor {
+    return SPEAKER_COLORS.includes(color as SpeakerColor);
+  }
+}
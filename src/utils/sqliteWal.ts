@@ -0,0 +1,84 @@
+const WAL_SUFFIX = '-wal';
+const WAL_HEADER_SIZE = 32;
+const FRAME_HEADER_SIZE = 24;
+// The magic number's last bit says whether checksums read words big-endian
+const WAL_MAGIC = 0x377f0682;
+
+/**
+ * SQLite write-ahead logs. A database in WAL mode, like a live Podcasts
+ * library, keeps its most recent changes in "<name>-wal" until they're
+ * checkpointed. sql.js only opens a single database file, so the log's
+ * committed pages are copied into a copy of the database first.
+ */
+export class SqliteWal {
+  static isLog(fileName: string): boolean {
+    return fileName.toLowerCase().endsWith(WAL_SUFFIX);
+  }
+
+  static databaseName(logName: string): string {
+    return logName.slice(0, -WAL_SUFFIX.length);
+  }
+
+  /**
+   * Returns the database with every committed transaction in the log applied,
+   * stopping at the first frame that doesn't belong to the current log or
+   * fails its checksum, the way SQLite itself recovers a log. A log that
+   * can't be read leaves the database as it was.
+   */
+  static apply(database: Uint8Array, log: Uint8Array): Uint8Array {
+    if (log.length < WAL_HEADER_SIZE) return database;
+
+    const header = new DataView(log.buffer, log.byteOffset, log.byteLength);
+    const magic = header.getUint32(0);
+    if ((magic & 0xfffffffe) !== WAL_MAGIC) return database;
+
+    const bigEndian = (magic & 1) === 1;
+    const pageSize = header.getUint32(8);
+    const salt1 = header.getUint32(16);
+    const salt2 = header.getUint32(20);
+    let checksum = this.checksum(log, 0, 24, [0, 0], bigEndian);
+    if (checksum[0] !== header.getUint32(24) || checksum[1] !== header.getUint32(28)) return database;
+
+    // Pages written since the last commit are only applied once it commits
+    let pending = new Map<number, number>();
+    const committed = new Map<number, number>();
+    let pageCount: number | undefined;
+
+    for (let offset = WAL_HEADER_SIZE; offset + FRAME_HEADER_SIZE + pageSize <= log.length; offset += FRAME_HEADER_SIZE + pageSize) {
+      if (header.getUint32(offset + 8) !== salt1 || header.getUint32(offset + 12) !== salt2) break;
+
+      checksum = this.checksum(log, offset, 8, checksum, bigEndian);
+      checksum = this.checksum(log, offset + FRAME_HEADER_SIZE, pageSize, checksum, bigEndian);
+      if (checksum[0] !== header.getUint32(offset + 16) || checksum[1] !== header.getUint32(offset + 20)) break;
+
+      pending.set(header.getUint32(offset), offset + FRAME_HEADER_SIZE);
+      const commitSize = header.getUint32(offset + 4);
+      if (commitSize > 0) {
+        pending.forEach((frameOffset, page) => committed.set(page, frameOffset));
+        pending = new Map();
+        pageCount = commitSize;
+      }
+    }
+
+    if (pageCount === undefined) return database;
+
+    const merged = new Uint8Array(pageCount * pageSize);
+    merged.set(database.subarray(0, merged.length));
+    committed.forEach((frameOffset, page) => {
+      if (page <= pageCount!) merged.set(log.subarray(frameOffset, frameOffset + pageSize), (page - 1) * pageSize);
+    });
+    // Mark the copy as a rollback-journal database so it opens without its log
+    merged[18] = 1;
+    merged[19] = 1;
+    return merged;
+  }
+
+  private static checksum(data: Uint8Array, start: number, length: number, [s0, s1]: number[], bigEndian: boolean): number[] {
+    const view = new DataView(data.buffer, data.byteOffset + start, length);
+    for (let i = 0; i < length; i += 8) {
+      s0 = (s0 + view.getUint32(i, !bigEndian) + s1) >>> 0;
+      s1 = (s1 + view.getUint32(i + 4, !bigEndian) + s0) >>> 0;
+    }
+    return [s0, s1];
+  }
+}
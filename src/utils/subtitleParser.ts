@@ -0,0 +1,128 @@
+import { TranscriptSegment } from '../types/transcript';
+import { SegmentTiming } from './segmentTiming';
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface SubtitleParseResult {
+  segments: TranscriptSegment[];
+  duration: number;
+}
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+export class SubtitleParser {
+  static isWebVtt(content: string): boolean {
+    return /^\uFEFF?WEBVTT(?:[ \t].*)?(?:\r?\n|$)/.test(content);
+  }
+
+  static isSrt(content: string): boolean {
+    return /^\uFEFF?\s*\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(content);
+  }
+
+  static detectFormat(filename: string, content: string): SubtitleFormat | null {
+    const lowerName = filename.toLowerCase();
+    if (lowerName.endsWith('.vtt') || this.isWebVtt(content)) return 'vtt';
+    if (lowerName.endsWith('.srt') || this.isSrt(content)) return 'srt';
+    return null;
+  }
+
+  parse(content: string, format: SubtitleFormat): SubtitleParseResult | null {
+    const cues = this.parseCues(content, format);
+    console.log(`Parsed ${cues.length} ${format.toUpperCase()} cues`);
+
+    if (cues.length === 0) return null;
+
+    const segments: TranscriptSegment[] = cues.map((cue, index) => ({
+      id: `segment-${index}`,
+      text: cue.text,
+      timestamp: cue.start,
+      endTime: cue.end > cue.start ? cue.end : undefined,
+      speaker: cue.speaker
+    }));
+
+    const duration = Math.max(...cues.map(cue => cue.end));
+
+    return {
+      segments: SegmentTiming.inferEndTimes(segments, duration),
+      duration
+    };
+  }
+
+  parseCues(content: string, format: SubtitleFormat): SubtitleCue[] {
+    const blocks = content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split(/\n[ \t]*\n/);
+
+    const cues: SubtitleCue[] = [];
+
+    blocks.forEach((block, blockIndex) => {
+      const lines = block.split('\n').filter(line => line.trim().length > 0);
+      if (lines.length === 0) return;
+
+      if (format === 'vtt') {
+        // Header, comment, style and region blocks carry no cue text
+        if (blockIndex === 0 && lines[0].startsWith('WEBVTT')) return;
+        if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+      }
+
+      // The optional cue identifier (SRT counter or VTT cue id) precedes the timing line
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1 || timingIndex > 1) return;
+
+      const timing = lines[timingIndex].match(TIMING_LINE);
+      if (!timing) return;
+
+      const start = this.parseTimestamp(timing[1]);
+      const end = this.parseTimestamp(timing[2]);
+      cues.push(...this.parseCueText(lines.slice(timingIndex + 1), start, end));
+    });
+
+    return cues.sort((a, b) => a.start - b.start);
+  }
+
+  private parseCueText(lines: string[], start: number, end: number): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    let current: SubtitleCue | null = null;
+
+    // A multi-line cue becomes one segment, unless its lines switch between <v> voices
+    for (const line of lines) {
+      const voice = line.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+      const text = this.stripMarkup(line);
+      if (!text) continue;
+
+      if (!current || (voice && voice[1].trim() !== current.speaker)) {
+        current = { start, end, text, speaker: voice ? voice[1].trim() : undefined };
+        cues.push(current);
+      } else {
+        current.text += ` ${text}`;
+      }
+    }
+
+    return cues;
+  }
+
+  private stripMarkup(line: string): string {
+    return line
+      .replace(/<[^>]*>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lrm;|&rlm;/g, '')
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private parseTimestamp(value: string): number {
+    const parts = value.replace(',', '.').split(':').map(part => parseFloat(part));
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+}
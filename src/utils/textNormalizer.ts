@@ -0,0 +1,122 @@
+// Letters that don't decompose into a base letter plus combining marks
+const SPECIAL_FOLDS: Record<string, string> = {
+  'ß': 'ss',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ø': 'o',
+  'ł': 'l',
+  'đ': 'd',
+  'ð': 'd',
+  'þ': 'th',
+  'ı': 'i'
+};
+
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Normalization helpers used by fuzzy search: accent folding, a light English
+ * stemmer and a bounded edit distance.
+ */
+export class TextNormalizer {
+  /**
+   * Lowercases and strips diacritics, so "Café" and "cafe" compare equal.
+   */
+  static foldAccents(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .replace(/[ßæœøłđðþı]/g, char => SPECIAL_FOLDS[char]);
+  }
+
+  /**
+   * Strips common English inflections ("podcasts", "recorded", "running") so
+   * different forms of a word share a stem. Deliberately conservative - it
+   * only needs to group word forms, not produce dictionary words.
+   */
+  static stem(word: string): string {
+    let stem = word.replace(/'s$/, '');
+    if (stem.length <= 3) return stem;
+
+    if (stem.endsWith('sses')) {
+      stem = stem.slice(0, -2);
+    } else if (stem.endsWith('ies') && stem.length > 4) {
+      stem = `${stem.slice(0, -3)}y`;
+    } else if (stem.endsWith('s') && !stem.endsWith('ss') && !stem.endsWith('us') && !stem.endsWith('is')) {
+      stem = stem.slice(0, -1);
+    }
+
+    for (const suffix of ['ingly', 'edly', 'ing', 'ed']) {
+      if (!stem.endsWith(suffix)) continue;
+
+      const base = stem.slice(0, -suffix.length);
+      // Only strip when what's left still looks like a word ("sing" stays "sing")
+      if (base.length < 3 || !VOWEL.test(base)) break;
+
+      stem = base;
+      // "running" -> "runn" -> "run", but keep "ll"/"ss"/"zz" as in "called"
+      if (/([^aeiouylsz])\1$/.test(stem)) {
+        stem = stem.slice(0, -1);
+      } else if (/[^aeiou][aeiou][^aeiouwxy]$/.test(stem) && stem.length === 3) {
+        // "hoped" -> "hop" -> "hope"
+        stem = `${stem}e`;
+      }
+      break;
+    }
+
+    if (stem.endsWith('ly') && stem.length > 5) {
+      stem = stem.slice(0, -2);
+    }
+    if (stem.endsWith('e') && stem.length > 4) {
+      stem = stem.slice(0, -1);
+    }
+
+    return stem;
+  }
+
+  /**
+   * Optimal string alignment distance (Levenshtein plus adjacent
+   * transpositions). Returns maxDistance + 1 as soon as the distance is known
+   * to exceed maxDistance, which keeps scanning a large vocabulary cheap.
+   */
+  static editDistance(a: string, b: string, maxDistance: number): number {
+    if (a === b) return 0;
+    if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+    let previousRow: number[] = [];
+    let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+      const nextRow = [i];
+      let rowMinimum = i;
+
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          distance = Math.min(distance, previousRow[j - 2] + 1);
+        }
+
+        nextRow.push(distance);
+        rowMinimum = Math.min(rowMinimum, distance);
+      }
+
+      if (rowMinimum > maxDistance) return maxDistance + 1;
+      previousRow = row;
+      row = nextRow;
+    }
+
+    return Math.min(row[b.length], maxDistance + 1);
+  }
+
+  /**
+   * Caps the edit distance for short words - allowing a typo in a three-letter
+   * word would match most of the vocabulary.
+   */
+  static allowedEditDistance(word: string, maxDistance: number): number {
+    if (word.length <= 3) return 0;
+    if (word.length <= 6) return Math.min(maxDistance, 1);
+    return maxDistance;
+  }
+}
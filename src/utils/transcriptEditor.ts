@@ -0,0 +1,150 @@
+import { TranscriptSegment, TranscriptWord } from '../types/transcript';
+import { SegmentTiming } from './segmentTiming';
+
+export type SegmentChanges = Partial<Pick<TranscriptSegment, 'text' | 'speaker' | 'timestamp'>>;
+
+/**
+ * Edits to a transcript's segments. Every operation returns a new segment
+ * array, leaving the old one intact for undo, and marks what it touched as edited.
+ */
+export class TranscriptEditor {
+  /**
+   * Changes a segment's text, speaker or start time. An empty speaker clears
+   * it; edits that change nothing return the segments as they were.
+   */
+  static updateSegment(segments: TranscriptSegment[], segmentId: string, changes: SegmentChanges): TranscriptSegment[] {
+    const current = segments.find(segment => segment.id === segmentId);
+    if (!current) return segments;
+
+    const next: TranscriptSegment = { ...current, edited: true };
+    if (changes.text !== undefined && changes.text.trim() && changes.text.trim() !== current.text) {
+      next.text = changes.text.trim();
+      // Word timings no longer line up with rewritten text
+      next.words = undefined;
+    }
+    if (changes.speaker !== undefined) {
+      next.speaker = changes.speaker.trim() || undefined;
+    }
+    if (changes.timestamp !== undefined && changes.timestamp >= 0) {
+      next.timestamp = changes.timestamp;
+      if (next.endTime !== undefined && next.endTime <= next.timestamp) next.endTime = undefined;
+    }
+
+    if (next.text === current.text && next.speaker === current.speaker && next.timestamp === current.timestamp) {
+      return segments;
+    }
+
+    const updated = segments.map(segment => segment.id === segmentId ? next : segment);
+    // A moved segment takes its place in time order
+    return next.timestamp === current.timestamp ? updated : [...updated].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Splits a segment in two at a character offset into its text. The time span
+   * is divided at the matching word when the word timings line up with the
+   * text. Otherwise it's divided in proportion to the text on each side and
+   * the word timings are dropped.
+   */
+  static splitSegment(segments: TranscriptSegment[], segmentId: string, offset: number): TranscriptSegment[] {
+    const index = segments.findIndex(segment => segment.id === segmentId);
+    const segment = segments[index];
+    if (!segment) return segments;
+
+    const before = segment.text.slice(0, offset).trim();
+    const after = segment.text.slice(offset).trim();
+    if (!before || !after) return segments;
+
+    const start = segment.timestamp;
+    const end = SegmentTiming.getEndTime(segment);
+    let words: [TranscriptWord[] | undefined, TranscriptWord[] | undefined] = [undefined, undefined];
+    let splitTime = start + (end - start) * (before.length / (before.length + after.length));
+
+    const splitWord = this.findSplitWord(segment, offset);
+    if (segment.words && splitWord !== undefined) {
+      words = [segment.words.slice(0, splitWord), segment.words.slice(splitWord)];
+      splitTime = words[1]![0].start;
+    }
+
+    const first: TranscriptSegment = { ...segment, text: before, endTime: splitTime, words: words[0], edited: true };
+    const second: TranscriptSegment = {
+      ...segment,
+      id: this.uniqueId(segments, segment.id),
+      text: after,
+      timestamp: splitTime,
+      endTime: end,
+      words: words[1],
+      edited: true
+    };
+
+    return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+  }
+
+  /**
+   * Joins a segment with the one after it. The first segment's speaker wins.
+   */
+  static mergeWithNext(segments: TranscriptSegment[], segmentId: string): TranscriptSegment[] {
+    const index = segments.findIndex(segment => segment.id === segmentId);
+    const segment = segments[index];
+    const next = segments[index + 1];
+    if (!segment || !next) return segments;
+
+    const merged: TranscriptSegment = {
+      ...segment,
+      text: `${segment.text} ${next.text}`.trim(),
+      endTime: next.endTime ?? SegmentTiming.getEndTime(next),
+      speaker: segment.speaker || next.speaker,
+      words: segment.words && next.words ? [...segment.words, ...next.words] : undefined,
+      confidence: undefined,
+      edited: true
+    };
+
+    return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+  }
+
+  /**
+   * Reads "1:02:03.5", "2:03" or plain seconds. Returns null for anything else.
+   */
+  static parseTimestamp(value: string): number | null {
+    const parts = value.trim().split(':');
+    // Only the seconds may have a fraction
+    if (parts.length > 3 || parts.some((part, index) => !(index === parts.length - 1 ? /^\d+(\.\d+)?$/ : /^\d+$/).test(part))) {
+      return null;
+    }
+    return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+  }
+
+  /**
+   * The index of the first word at or after the offset, found by walking the
+   * words through the text. Undefined when a word can't be found, the offset
+   * falls inside a word, or either side would be left without words.
+   */
+  private static findSplitWord(segment: TranscriptSegment, offset: number): number | undefined {
+    if (!segment.words) return undefined;
+
+    const text = segment.text.toLowerCase();
+    let cursor = 0;
+    let splitWord: number | undefined;
+
+    for (const [index, { text: wordText }] of segment.words.entries()) {
+      const word = wordText.trim().toLowerCase();
+      const position = text.indexOf(word, cursor);
+      if (!word || position === -1) return undefined;
+
+      if (splitWord === undefined && position >= offset) {
+        splitWord = index;
+      } else if (splitWord === undefined && position + word.length > offset) {
+        return undefined;
+      }
+      cursor = position + word.length;
+    }
+
+    return splitWord !== undefined && splitWord > 0 ? splitWord : undefined;
+  }
+
+  private static uniqueId(segments: TranscriptSegment[], baseId: string): string {
+    const ids = new Set(segments.map(segment => segment.id));
+    let suffix = 1;
+    while (ids.has(`${baseId}-${suffix}`)) suffix++;
+    return `${baseId}-${suffix}`;
+  }
+}
@@ -0,0 +1,218 @@
+import { TranscriptSegment, TranscriptWord } from '../types/transcript';
+import { SegmentTiming } from './segmentTiming';
+import { XmlDocumentParser, XmlElement } from './xmlDocumentParser';
+
+const TTML_NAMESPACE = 'http://www.w3.org/ns/ttml';
+const TTML_METADATA_NAMESPACE = 'http://www.w3.org/ns/ttml#metadata';
+const TTML_PARAMETER_NAMESPACE = 'http://www.w3.org/ns/ttml#parameter';
+
+export interface TtmlParseResult {
+  segments: TranscriptSegment[];
+  duration: number;
+  language?: string;
+}
+
+interface TimingContext {
+  frameRate: number;
+  tickRate: number;
+}
+
+export class TtmlParser {
+  static isTtmlContent(content: string): boolean {
+    // Only look at the head of the document - the root <tt> element comes first
+    const head = content.slice(0, 4096);
+    return /<(?:\w+:)?tt[\s>]/.test(head) && head.includes(TTML_NAMESPACE);
+  }
+
+  parse(content: string): TtmlParseResult | null {
+    let root: XmlElement;
+    try {
+      root = XmlDocumentParser.parse(content);
+    } catch (error) {
+      console.error('TTML parsing error:', error instanceof Error ? error.message : error);
+      return null;
+    }
+
+    if (root.localName !== 'tt') {
+      return null;
+    }
+
+    const timing = this.readTimingContext(root);
+    const agents = this.readAgentNames(root);
+    const paragraphs = root.getElements('p');
+
+    console.log(`Parsing TTML document with ${paragraphs.length} paragraphs and ${agents.size} agents`);
+
+    const segments: TranscriptSegment[] = [];
+    let lastEnd = 0;
+
+    paragraphs.forEach((paragraph) => {
+      const words = this.extractWords(paragraph, timing);
+      const text = words.length > 0
+        ? words.map(word => word.text).join(' ')
+        : this.normalizeWhitespace(paragraph.textContent || '');
+
+      if (!text) return;
+
+      const begin = this.parseTime(paragraph.getAttribute('begin'), timing)
+        ?? words.find(word => word.begin !== undefined)?.begin
+        ?? lastEnd;
+      const end = this.parseTime(paragraph.getAttribute('end'), timing)
+        ?? [...words].reverse().find(word => word.end !== undefined)?.end
+        ?? begin;
+
+      const agentId = this.findAgentId(paragraph);
+      const timedWords = this.toTimedWords(words, begin, end);
+
+      segments.push({
+        id: `segment-${segments.length}`,
+        text,
+        timestamp: begin,
+        endTime: end > begin ? end : undefined,
+        speaker: agentId ? agents.get(agentId) || agentId : undefined,
+        words: timedWords.length > 0 ? timedWords : undefined
+      });
+
+      lastEnd = Math.max(lastEnd, end);
+    });
+
+    if (segments.length === 0) {
+      console.log('No timed paragraphs found in TTML document');
+      return null;
+    }
+
+    segments.sort((a, b) => a.timestamp - b.timestamp);
+    segments.forEach((segment, index) => {
+      segment.id = `segment-${index}`;
+    });
+
+    const body = root.getElements('body')[0];
+    const declaredDuration = body ? this.parseTime(body.getAttribute('dur'), timing) : undefined;
+    const duration = Math.max(declaredDuration ?? 0, lastEnd);
+
+    return {
+      segments: SegmentTiming.inferEndTimes(segments, duration),
+      duration,
+      language: root.getAttribute('xml:lang') || undefined
+    };
+  }
+
+  private readTimingContext(root: XmlElement): TimingContext {
+    const frameRate = parseFloat(
+      root.getAttributeNS(TTML_PARAMETER_NAMESPACE, 'frameRate') || root.getAttribute('ttp:frameRate') || ''
+    );
+    const tickRate = parseFloat(
+      root.getAttributeNS(TTML_PARAMETER_NAMESPACE, 'tickRate') || root.getAttribute('ttp:tickRate') || ''
+    );
+
+    return {
+      frameRate: frameRate > 0 ? frameRate : 30,
+      tickRate: tickRate > 0 ? tickRate : 1
+    };
+  }
+
+  private readAgentNames(root: XmlElement): Map<string, string> {
+    const agents = new Map<string, string>();
+
+    // <ttm:agent xml:id="SPEAKER_1"><ttm:name>Jane Doe</ttm:name></ttm:agent>
+    root.getElements('agent').forEach(agent => {
+      const id = agent.getAttribute('xml:id') || agent.getAttribute('id');
+      if (!id) return;
+
+      const nameElement = agent.getElements('name')[0];
+      const name = nameElement ? this.normalizeWhitespace(nameElement.textContent || '') : '';
+      agents.set(id, name || id);
+    });
+
+    return agents;
+  }
+
+  private findAgentId(element: XmlElement): string | null {
+    // Speakers can be declared on the paragraph or inherited from an enclosing <div>
+    let current: XmlElement | null = element;
+    while (current) {
+      const agent = current.getAttributeNS(TTML_METADATA_NAMESPACE, 'agent') || current.getAttribute('ttm:agent');
+      if (agent) return agent.trim().split(/\s+/)[0];
+      current = current.parent;
+    }
+    return null;
+  }
+
+  private extractWords(paragraph: XmlElement, timing: TimingContext): { text: string; begin?: number; end?: number }[] {
+    const spans = paragraph.getElements('span');
+
+    // Apple marks word spans with podcasts:unit="word"; other producers only time the leaf spans
+    const wordSpans = spans.filter(span => {
+      const unit = span.getAttribute('podcasts:unit');
+      if (unit) return unit === 'word';
+      return span.hasAttribute('begin') && span.getElements('span').length === 0;
+    });
+
+    return wordSpans
+      .map(span => ({
+        text: this.normalizeWhitespace(span.textContent || ''),
+        begin: this.parseTime(span.getAttribute('begin'), timing),
+        end: this.parseTime(span.getAttribute('end'), timing)
+      }))
+      .filter(word => word.text.length > 0);
+  }
+
+  private toTimedWords(words: { text: string; begin?: number; end?: number }[], segmentBegin: number, segmentEnd: number): TranscriptWord[] {
+    // Only keep word timing when every word is timed - partial timing can't be trusted for highlighting
+    if (words.length === 0 || words.some(word => word.begin === undefined)) return [];
+
+    return words.map((word, index) => {
+      const start = word.begin!;
+      const nextStart = words[index + 1]?.begin;
+      const end = word.end ?? nextStart ?? Math.max(segmentEnd, start);
+      return { text: word.text, start: Math.max(start, segmentBegin), end };
+    });
+  }
+
+  /**
+   * Parses TTML clock-time ("01:02:03.5", "01:02:03:12") and offset-time
+   * ("12.5s", "300ms", "90f") expressions. Apple writes bare seconds ("12.345"),
+   * which we treat as an offset in seconds.
+   *
+   * Apple's documents use absolute times on every element, so we don't apply
+   * parent-relative time containment here.
+   */
+  private parseTime(value: string | null, timing: TimingContext): number | undefined {
+    if (!value) return undefined;
+    const trimmed = value.trim();
+
+    const clock = trimmed.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/);
+    if (clock) {
+      const [, hours, minutes, seconds, frames] = clock;
+      return parseInt(hours, 10) * 3600 +
+             parseInt(minutes, 10) * 60 +
+             parseFloat(seconds) +
+             (frames ? parseFloat(frames) / timing.frameRate : 0);
+    }
+
+    const shortClock = trimmed.match(/^(\d+):(\d{2}(?:\.\d+)?)$/);
+    if (shortClock) {
+      return parseInt(shortClock[1], 10) * 60 + parseFloat(shortClock[2]);
+    }
+
+    const offset = trimmed.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)?$/);
+    if (offset) {
+      const amount = parseFloat(offset[1]);
+      switch (offset[2]) {
+        case 'h': return amount * 3600;
+        case 'm': return amount * 60;
+        case 'ms': return amount / 1000;
+        case 'f': return amount / timing.frameRate;
+        case 't': return amount / timing.tickRate;
+        default: return amount;
+      }
+    }
+
+    console.log(`Unrecognized TTML time expression: ${value}`);
+    return undefined;
+  }
+
+  private normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,204 @@
+export class XmlSyntaxError extends Error {
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'XmlSyntaxError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+const NAME = /[^\s/>=]+/y;
+const ATTRIBUTE = /\s*([^\s/>=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+/**
+ * An element of a parsed XML document, with the small part of the DOM's
+ * Element API the transcript parsers use. Names are compared as written, so
+ * lookups by local name ignore namespace prefixes.
+ */
+export class XmlElement {
+  readonly children: XmlElement[] = [];
+  // Text and child elements in document order
+  readonly content: (string | XmlElement)[] = [];
+
+  constructor(
+    readonly name: string,
+    readonly attributes: Map<string, string>,
+    readonly parent: XmlElement | null
+  ) {}
+
+  get localName(): string {
+    return this.name.slice(this.name.indexOf(':') + 1);
+  }
+
+  get textContent(): string {
+    return this.content.map(part => typeof part === 'string' ? part : part.textContent).join('');
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.attributes.has(name);
+  }
+
+  /**
+   * Reads an attribute by namespace URI, whatever prefix the document bound to it.
+   */
+  getAttributeNS(namespace: string, localName: string): string | null {
+    for (const [name, value] of this.attributes) {
+      const separator = name.indexOf(':');
+      if (separator === -1 || name.slice(separator + 1) !== localName) continue;
+      if (this.lookupNamespace(name.slice(0, separator)) === namespace) return value;
+    }
+    return null;
+  }
+
+  /**
+   * Descendants with any of the given local names, in document order, like
+   * getElementsByTagNameNS('*', name).
+   */
+  getElements(...localNames: string[]): XmlElement[] {
+    const found: XmlElement[] = [];
+    const visit = (element: XmlElement) => element.children.forEach(child => {
+      if (localNames.includes(child.localName)) found.push(child);
+      visit(child);
+    });
+    visit(this);
+    return found;
+  }
+
+  private lookupNamespace(prefix: string): string | undefined {
+    if (prefix === 'xml') return 'http://www.w3.org/XML/1998/namespace';
+    const namespace = this.attributes.get(`xmlns:${prefix}`);
+    return namespace ?? this.parent?.lookupNamespace(prefix);
+  }
+}
+
+/**
+ * A small XML parser that doesn't need the DOM, so XML formats (TTML, plist)
+ * parse the same in the library worker as on the main thread. It reads
+ * elements, attributes, text, CDATA and character references, and skips
+ * comments, processing instructions and DOCTYPEs. Malformed documents throw an
+ * XmlSyntaxError.
+ */
+export class XmlDocumentParser {
+  static looksLikeXml(content: string): boolean {
+    return content.replace(/^\uFEFF/, '').trimStart().startsWith('<');
+  }
+
+  /**
+   * Parses a document and returns its root element.
+   */
+  static parse(content: string): XmlElement {
+    const document = new XmlElement('', new Map(), null);
+    // Elements opened and not yet closed, innermost last
+    const open: XmlElement[] = [];
+    let current = document;
+    let position = content.startsWith('\uFEFF') ? 1 : 0;
+
+    const skipPast = (terminator: string) => {
+      const end = content.indexOf(terminator, position);
+      if (end === -1) throw new XmlSyntaxError(`Missing "${terminator}"`, position);
+      position = end + terminator.length;
+    };
+
+    while (position < content.length) {
+      const tagStart = content.indexOf('<', position);
+      const text = content.slice(position, tagStart === -1 ? content.length : tagStart);
+      if (text) {
+        if (current === document) {
+          if (text.trim()) throw new XmlSyntaxError('Text outside the root element', position);
+        } else {
+          current.content.push(this.decodeEntities(text));
+        }
+      }
+      if (tagStart === -1) break;
+      position = tagStart;
+
+      if (content.startsWith('<!--', position)) {
+        skipPast('-->');
+      } else if (content.startsWith('<![CDATA[', position)) {
+        const end = content.indexOf(']]>', position);
+        if (end === -1) throw new XmlSyntaxError('Unterminated CDATA section', position);
+        current.content.push(content.slice(position + 9, end));
+        position = end + 3;
+      } else if (content.startsWith('<?', position)) {
+        skipPast('?>');
+      } else if (content.startsWith('<!', position)) {
+        // A DOCTYPE, possibly with an internal subset in brackets
+        const bracket = content.indexOf('[', position);
+        const close = content.indexOf('>', position);
+        if (bracket !== -1 && bracket < close) {
+          position = bracket;
+          skipPast(']');
+        }
+        skipPast('>');
+      } else if (content[position + 1] === '/') {
+        const end = content.indexOf('>', position);
+        const name = content.slice(position + 2, end === -1 ? undefined : end).trim();
+        if (end === -1 || current === document || name !== current.name) {
+          throw new XmlSyntaxError(`Unexpected closing tag </${name}>`, position);
+        }
+        open.pop();
+        current = open[open.length - 1] ?? document;
+        position = end + 1;
+      } else {
+        const tag = this.parseStartTag(content, position + 1, current === document ? null : current);
+        current.children.push(tag.element);
+        current.content.push(tag.element);
+        if (!tag.selfClosing) {
+          open.push(tag.element);
+          current = tag.element;
+        }
+        position = tag.end;
+      }
+
+      if (current === document && document.children.length > 1) {
+        throw new XmlSyntaxError('More than one root element', position);
+      }
+    }
+
+    if (current !== document) throw new XmlSyntaxError(`Unclosed element <${current.name}>`, content.length);
+    const root = document.children[0];
+    if (!root) throw new XmlSyntaxError('No root element', content.length);
+    return root;
+  }
+
+  /**
+   * Reads the name and attributes of a start tag whose name begins at
+   * `position`, returning the new element and the position after the tag.
+   */
+  private static parseStartTag(
+    content: string,
+    position: number,
+    parent: XmlElement | null
+  ): { element: XmlElement; selfClosing: boolean; end: number } {
+    NAME.lastIndex = position;
+    const name = NAME.exec(content)?.[0];
+    if (!name) throw new XmlSyntaxError('Missing element name', position);
+    position = NAME.lastIndex;
+
+    const attributes = new Map<string, string>();
+    ATTRIBUTE.lastIndex = position;
+    for (let match = ATTRIBUTE.exec(content); match; match = ATTRIBUTE.exec(content)) {
+      attributes.set(match[1], this.decodeEntities(match[2] ?? match[3]));
+      position = ATTRIBUTE.lastIndex;
+    }
+
+    while (/\s/.test(content[position] ?? '')) position++;
+    const selfClosing = content[position] === '/';
+    if (selfClosing) position++;
+    if (content[position] !== '>') throw new XmlSyntaxError(`Malformed tag <${name}>`, position);
+
+    return { element: new XmlElement(name, attributes, parent), selfClosing, end: position + 1 };
+  }
+
+  private static decodeEntities(text: string): string {
+    if (!text.includes('&')) return text;
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (reference, entity: string) => {
+      if (entity[0] !== '#') return ENTITIES[entity] ?? reference;
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+    });
+  }
+}
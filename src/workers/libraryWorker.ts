@@ -0,0 +1,97 @@
+import { SearchEngine } from '../utils/searchEngine';
+import { FileParser } from '../utils/fileParser';
+import { QueryParseError } from '../utils/queryParser';
+import { SerializedError, WorkerRequest, WorkerResponse } from './protocol';
+
+// The app's lib settings describe a window, so type the worker scope by hand
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const engine = new SearchEngine();
+const activeImports = new Map<number, AbortController>();
+// Only the newest query is worth answering; cancelling it resets this to 0
+let latestSearchId = 0;
+
+const serializeError = (error: unknown): SerializedError => {
+  if (error instanceof QueryParseError) {
+    return { name: error.name, message: error.message, position: error.position };
+  }
+  if (error instanceof Error || error instanceof DOMException) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+};
+
+const runSearch = ({ requestId, query, options }: Extract<WorkerRequest, { type: 'search' }>) => {
+  if (requestId !== latestSearchId) {
+    scope.postMessage({ type: 'cancelled', requestId });
+    return;
+  }
+
+  if (options.regex) scope.postMessage({ type: 'started', requestId });
+  try {
+    scope.postMessage({ type: 'searchResults', requestId, results: engine.search(query, options) });
+  } catch (error) {
+    scope.postMessage({ type: 'error', requestId, error: serializeError(error) });
+  }
+};
+
+const runFind = ({ requestId, pattern, options }: Extract<WorkerRequest, { type: 'find' }>) => {
+  if (options.regex) scope.postMessage({ type: 'started', requestId });
+  try {
+    scope.postMessage({ type: 'findResults', requestId, matches: engine.findMatches(pattern, options) });
+  } catch (error) {
+    scope.postMessage({ type: 'error', requestId, error: serializeError(error) });
+  }
+};
+
+const runImport = async (requestId: number, files: File[]) => {
+  const controller = new AbortController();
+  activeImports.set(requestId, controller);
+
+  try {
+    const result = await new FileParser().processFiles(files, {
+      signal: controller.signal,
+      onProgress: progress => scope.postMessage({ type: 'progress', requestId, progress })
+    });
+    scope.postMessage({ type: 'filesProcessed', requestId, result });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      scope.postMessage({ type: 'cancelled', requestId });
+    } else {
+      scope.postMessage({ type: 'error', requestId, error: serializeError(error) });
+    }
+  } finally {
+    activeImports.delete(requestId);
+  }
+};
+
+scope.onmessage = ({ data: request }) => {
+  switch (request.type) {
+    case 'upsertEpisodes':
+      engine.addEpisodes(request.episodes);
+      break;
+    case 'removeEpisodes':
+      request.episodeIds.forEach(episodeId => engine.removeEpisode(episodeId));
+      break;
+    case 'search':
+      latestSearchId = request.requestId;
+      // Yield first so cancels and newer queries already queued behind this one are seen
+      setTimeout(() => runSearch(request), 0);
+      break;
+    case 'find':
+      runFind(request);
+      break;
+    case 'processFiles':
+      runImport(request.requestId, request.files);
+      break;
+    case 'cancel':
+      activeImports.get(request.requestId)?.abort();
+      if (request.requestId === latestSearchId) {
+        latestSearchId = 0;
+      }
+      break;
+  }
+};
@@ -0,0 +1,283 @@
+import { Episode, FileProcessingResult, FindMatch, FindOptions, SearchOptions, SearchResult } from '../types/transcript';
+import { REGEX_TIME_BUDGET_MS, SearchEngine, SearchPatternError } from '../utils/searchEngine';
+import { FileParser, ProcessFilesOptions } from '../utils/fileParser';
+import { QueryParseError } from '../utils/queryParser';
+import { SerializedError, WorkerRequest, WorkerResponse } from './protocol';
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: ProcessFilesOptions['onProgress'];
+}
+
+// The engine stops slow patterns between segments itself; past this, a single
+// match is stuck and the worker is restarted
+const RUNAWAY_PATTERN_MS = REGEX_TIME_BUDGET_MS + 500;
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Main-thread handle on the library worker, which owns the search index and
+ * parses imported files. Falls back to doing the work in-process when workers
+ * aren't available, so callers don't need to care which one they got.
+ */
+export class LibraryWorkerClient {
+  private worker: Worker | null = null;
+  private fallbackEngine: SearchEngine | null = null;
+  private sentEpisodes = new Map<string, Episode>();
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private activeSearchId: number | null = null;
+  private activeFindId: number | null = null;
+  // The regex request the worker is running, which is watched even after it's cancelled
+  private runningPattern: { requestId: number; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  constructor() {
+    this.startWorker();
+  }
+
+  /**
+   * Sends episodes that were added or replaced since the last call, and removals.
+   * Returns whether anything changed.
+   */
+  syncEpisodes(episodes: Episode[]): boolean {
+    const incomingIds = new Set(episodes.map(episode => episode.id));
+    const removedIds = Array.from(this.sentEpisodes.keys()).filter(episodeId => !incomingIds.has(episodeId));
+    const changed = episodes.filter(episode => this.sentEpisodes.get(episode.id) !== episode);
+
+    removedIds.forEach(episodeId => this.sentEpisodes.delete(episodeId));
+    changed.forEach(episode => this.sentEpisodes.set(episode.id, episode));
+
+    if (this.fallbackEngine) {
+      return this.fallbackEngine.syncEpisodes(episodes);
+    }
+
+    if (removedIds.length > 0) this.post({ type: 'removeEpisodes', episodeIds: removedIds });
+    if (changed.length > 0) this.post({ type: 'upsertEpisodes', episodes: changed });
+    return removedIds.length > 0 || changed.length > 0;
+  }
+
+  /**
+   * Runs a query in the worker. Starting a new search cancels the previous one,
+   * whose promise rejects with an AbortError.
+   */
+  search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    if (this.activeSearchId !== null) {
+      this.cancel(this.activeSearchId);
+    }
+
+    if (this.fallbackEngine) {
+      const engine = this.fallbackEngine;
+      return new Promise(resolve => resolve(engine.search(query, options)));
+    }
+
+    const requestId = this.nextRequestId++;
+    this.activeSearchId = requestId;
+    return this.request<SearchResult[]>({ type: 'search', requestId, query, options });
+  }
+
+  /**
+   * Lists every match of a find-and-replace pattern. Like search, a newer find
+   * cancels the one before it.
+   */
+  find(pattern: string, options: FindOptions = {}): Promise<FindMatch[]> {
+    if (this.activeFindId !== null) {
+      this.cancel(this.activeFindId);
+    }
+
+    if (this.fallbackEngine) {
+      const engine = this.fallbackEngine;
+      return new Promise(resolve => resolve(engine.findMatches(pattern, options)));
+    }
+
+    const requestId = this.nextRequestId++;
+    this.activeFindId = requestId;
+    return this.request<FindMatch[]>({ type: 'find', requestId, pattern, options });
+  }
+
+  /**
+   * Parses files in the worker, streaming progress. Audio files stay here and
+   * are matched to the parsed episodes on the main thread. Cancelling through
+   * the signal works until the result is returned, including after the worker
+   * has finished.
+   */
+  async processFiles(files: FileList | File[], options: ProcessFilesOptions = {}): Promise<FileProcessingResult> {
+    const parser = new FileParser();
+    if (this.fallbackEngine) {
+      return parser.processFiles(files, options);
+    }
+
+    const { signal, onProgress } = options;
+    const fileList = Array.from(files);
+    const audioFiles = fileList.filter(file => FileParser.isAudioFile(file.name));
+    const transcriptFiles = fileList.filter(file => !FileParser.isAudioFile(file.name));
+    const throwIfCancelled = () => {
+      if (signal?.aborted) throw new DOMException('Import cancelled', 'AbortError');
+    };
+    throwIfCancelled();
+
+    const requestId = this.nextRequestId++;
+    const onAbort = () => this.cancel(requestId);
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      // The worker only counts transcript files; progress covers the whole batch
+      const result = await this.request<FileProcessingResult>(
+        { type: 'processFiles', requestId, files: transcriptFiles },
+        progress => onProgress?.({ ...progress, fileCount: fileList.length })
+      );
+      throwIfCancelled();
+
+      if (audioFiles.length > 0) {
+        parser.matchAudioFiles(result, audioFiles);
+      }
+
+      onProgress?.({ fileName: '', filesProcessed: fileList.length, fileCount: fileList.length });
+      return result;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private request<T>(request: WorkerRequest & { requestId: number }, onProgress?: ProcessFilesOptions['onProgress']): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(request.requestId, { resolve: value => resolve(value as T), reject, onProgress });
+      this.post(request);
+    });
+  }
+
+  private cancel(requestId: number) {
+    const pending = this.pending.get(requestId);
+    if (!pending) return;
+
+    this.pending.delete(requestId);
+    if (this.activeSearchId === requestId) this.activeSearchId = null;
+    if (this.activeFindId === requestId) this.activeFindId = null;
+    this.post({ type: 'cancel', requestId });
+    pending.reject(new DOMException('Request cancelled', 'AbortError'));
+  }
+
+  private handleResponse(response: WorkerResponse) {
+    // A cancelled pattern still occupies the worker, so it's timed regardless
+    if (response.type === 'started') {
+      this.watchPattern(response.requestId);
+      return;
+    }
+    if (response.type !== 'progress') this.unwatchPattern(response.requestId);
+
+    const pending = this.pending.get(response.requestId);
+    // Responses to requests we've already given up on are dropped
+    if (!pending) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.requestId);
+    if (this.activeSearchId === response.requestId) this.activeSearchId = null;
+    if (this.activeFindId === response.requestId) this.activeFindId = null;
+
+    switch (response.type) {
+      case 'searchResults':
+        pending.resolve(response.results);
+        break;
+      case 'findResults':
+        pending.resolve(response.matches);
+        break;
+      case 'filesProcessed':
+        pending.resolve(response.result);
+        break;
+      case 'cancelled':
+        pending.reject(new DOMException('Request cancelled', 'AbortError'));
+        break;
+      case 'error':
+        pending.reject(this.deserializeError(response.error));
+        break;
+    }
+  }
+
+  private startWorker() {
+    try {
+      this.worker = new Worker(new URL('./libraryWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = (event) => {
+        console.error('Library worker failed, continuing on the main thread:', event.message);
+        this.useFallback();
+      };
+    } catch (error) {
+      console.error('Could not start the library worker, continuing on the main thread:', error);
+      this.useFallback();
+    }
+  }
+
+  /**
+   * Stops a worker stuck in a runaway regex match and starts a fresh one with the
+   * same episodes. The stuck request fails with a SearchPatternError; anything
+   * else in flight is rejected so callers can retry.
+   */
+  private restartWorker(stuckRequestId: number) {
+    this.runningPattern = null;
+    this.worker?.terminate();
+    this.worker = null;
+
+    const stuck = this.pending.get(stuckRequestId);
+    this.pending.delete(stuckRequestId);
+    stuck?.reject(SearchPatternError.timedOut());
+    this.rejectAll(new Error('The background worker was restarted. Please try again.'));
+
+    this.startWorker();
+    if (this.sentEpisodes.size > 0) {
+      this.post({ type: 'upsertEpisodes', episodes: Array.from(this.sentEpisodes.values()) });
+    }
+  }
+
+  private watchPattern(requestId: number) {
+    this.unwatchPattern(this.runningPattern?.requestId);
+    this.runningPattern = { requestId, timer: setTimeout(() => this.restartWorker(requestId), RUNAWAY_PATTERN_MS) };
+  }
+
+  private unwatchPattern(requestId: number | undefined) {
+    if (!this.runningPattern || this.runningPattern.requestId !== requestId) return;
+    clearTimeout(this.runningPattern.timer);
+    this.runningPattern = null;
+  }
+
+  private deserializeError(error: SerializedError): Error {
+    switch (error.name) {
+      case 'QueryParseError':
+        return new QueryParseError(error.message, error.position ?? 0);
+      case 'SearchPatternError':
+        return new SearchPatternError(error.message);
+      case 'AbortError':
+        return new DOMException(error.message, 'AbortError');
+      default:
+        return new Error(error.message);
+    }
+  }
+
+  private post(request: WorkerRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  /**
+   * Switches to in-process search, rebuilding the index from what had been sent
+   * to the worker. Requests in flight are rejected so callers can retry.
+   */
+  private useFallback() {
+    this.unwatchPattern(this.runningPattern?.requestId);
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallbackEngine = new SearchEngine();
+    this.fallbackEngine.setEpisodes(Array.from(this.sentEpisodes.values()));
+    this.rejectAll(new Error('The background worker stopped unexpectedly. Please try again.'));
+  }
+
+  private rejectAll(error: unknown) {
+    this.pending.forEach(pending => pending.reject(error));
+    this.pending.clear();
+    this.activeSearchId = null;
+    this.activeFindId = null;
+  }
+}
@@ -0,0 +1,31 @@
+import { Episode, FileProcessingResult, FindMatch, FindOptions, SearchOptions, SearchResult } from '../types/transcript';
+import { ImportProgress } from '../utils/fileParser';
+
+/**
+ * Messages between the main thread and the library worker. Every request that
+ * expects an answer carries a requestId, echoed back on its responses.
+ */
+export type WorkerRequest =
+  | { type: 'upsertEpisodes'; episodes: Episode[] }
+  | { type: 'removeEpisodes'; episodeIds: string[] }
+  | { type: 'search'; requestId: number; query: string; options: SearchOptions }
+  | { type: 'find'; requestId: number; pattern: string; options: FindOptions }
+  | { type: 'processFiles'; requestId: number; files: File[] }
+  | { type: 'cancel'; requestId: number };
+
+export type WorkerResponse =
+  | { type: 'searchResults'; requestId: number; results: SearchResult[] }
+  | { type: 'findResults'; requestId: number; matches: FindMatch[] }
+  | { type: 'progress'; requestId: number; progress: ImportProgress }
+  // A regex search or find began running; the client times it from here
+  | { type: 'started'; requestId: number }
+  | { type: 'filesProcessed'; requestId: number; result: FileProcessingResult }
+  | { type: 'cancelled'; requestId: number }
+  | { type: 'error'; requestId: number; error: SerializedError };
+
+// Errors lose their class crossing postMessage, so they travel as plain data
+export interface SerializedError {
+  name: string;
+  message: string;
+  position?: number;
+}